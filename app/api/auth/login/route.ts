@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { UserStatus } from '../../../../types/user';
+import type { AuthCredentials, AuthResponse } from '../../../../types/user';
+import { getUserStore, normalizeEmail, sanitizeUser } from '../../../../lib/users';
+import { hashPassword, verifyPassword } from '../../../../lib/password';
+import { issueAuthTokens } from '../../../../lib/auth';
+
+/**
+ * app/api/auth/login/route.ts
+ * POST /api/auth/login -> exchange AuthCredentials for a session.
+ *
+ * Responds with { user: SafeUser, tokens: AuthTokens }. `remember: true` issues a
+ * long-lived refresh token.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as AuthCredentials | null;
+    if (!body || typeof body.email !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const store = getUserStore();
+    let user = await store.getByEmail(normalizeEmail(body.email));
+    const verification = await verifyPassword(body.password, user?.password);
+    // Same response (and the same scrypt work, see verifyPassword) for unknown email and
+    // wrong password to avoid account enumeration
+    if (!user || !verification.valid) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    // Transparently upgrade legacy SHA-256 or under-strength hashes now that we know the password
+    if (verification.needsRehash) {
+      user = (await store.updateById(user.id, { password: await hashPassword(body.password) })) ?? user;
+    }
+
+    if (user.status === UserStatus.SUSPENDED) {
+      return NextResponse.json({ error: 'Account suspended' }, { status: 403 });
+    }
+
+    const response: AuthResponse = {
+      user: sanitizeUser(user),
+      tokens: issueAuthTokens(user, { remember: body.remember }),
+    };
+    return NextResponse.json(response);
+  } catch (err: any) {
+    console.error('POST /api/auth/login error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
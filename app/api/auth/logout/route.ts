@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getBearerToken, revokeToken, verifyToken } from '../../../../lib/auth';
+
+/**
+ * app/api/auth/logout/route.ts
+ * POST /api/auth/logout -> end the current session.
+ *
+ * Revokes the bearer access token (if sent) and the refresh token from the
+ * optional JSON body { refreshToken?: string }. Always responds 204 so clients
+ * can clear local state regardless of token validity.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const accessToken = getBearerToken(request);
+    if (accessToken) {
+      const claims = verifyToken(accessToken, 'access');
+      if (claims) revokeToken(claims);
+    }
+
+    const body = (await request.json().catch(() => null)) as { refreshToken?: string } | null;
+    if (body && typeof body.refreshToken === 'string') {
+      const claims = verifyToken(body.refreshToken, 'refresh');
+      if (claims) revokeToken(claims);
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (err: any) {
+    console.error('POST /api/auth/logout error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import type { PasswordResetConfirmDTO } from '../../../../../types/user';
+import { getUserStore } from '../../../../../lib/users';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../../../../../lib/password';
+import { matchesTokenHash, parseOneTimeToken } from '../../../../../lib/tokens';
+import { revokeUserSessions } from '../../../../../lib/auth';
+
+/**
+ * app/api/auth/password-reset/confirm/route.ts
+ * POST /api/auth/password-reset/confirm -> set a new password using a reset token.
+ *
+ * Expected JSON body: PasswordResetConfirmDTO
+ * The token is cleared on success with a conditional write, so each reset link works
+ * exactly once even when submitted twice at the same time. Every session the user
+ * had is revoked along with the old password.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as PasswordResetConfirmDTO | null;
+    if (!body || typeof body.newPassword !== 'string') {
+      return NextResponse.json({ error: 'token and newPassword are required' }, { status: 400 });
+    }
+    if (body.newPassword.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseOneTimeToken(body.token);
+    const store = getUserStore();
+    const user = parsed ? await store.getById(parsed.userId) : null;
+    if (!parsed || !user || !matchesTokenHash(parsed.secret, user.resetToken, user.resetTokenExpiry)) {
+      return NextResponse.json({ error: 'Invalid or expired reset token' }, { status: 400 });
+    }
+
+    const updated = await store.updateByIdIf(
+      user.id,
+      { resetToken: user.resetToken },
+      {
+        password: await hashPassword(body.newPassword),
+        resetToken: null,
+        resetTokenExpiry: null,
+        metadata: revokeUserSessions(user),
+      }
+    );
+    // Another request used the token first
+    if (!updated) {
+      return NextResponse.json({ error: 'Invalid or expired reset token' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err: any) {
+    console.error('POST /api/auth/password-reset/confirm error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
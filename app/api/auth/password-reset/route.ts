@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { UserStatus } from '../../../../types/user';
+import type { PasswordResetRequestDTO, User } from '../../../../types/user';
+import { getUserStore, normalizeEmail, type UserStore } from '../../../../lib/users';
+import { createOneTimeToken } from '../../../../lib/tokens';
+import { appUrl, getMailTransport } from '../../../../lib/mail';
+
+/**
+ * app/api/auth/password-reset/route.ts
+ * POST /api/auth/password-reset -> email a password reset link.
+ *
+ * Expected JSON body: PasswordResetRequestDTO
+ * Always responds 202 with the same body, whether or not the email belongs to an
+ * account, so the endpoint cannot be used to discover registered addresses. The link
+ * is sent in the background so the response time gives nothing away either.
+ */
+
+/** Reset links expire after one hour */
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const ACCEPTED_RESPONSE = {
+  success: true,
+  message: 'If an account exists for that email, a password reset link has been sent.',
+};
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as PasswordResetRequestDTO | null;
+  if (!body || typeof body.email !== 'string' || !body.email.trim()) {
+    return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+  }
+
+  try {
+    const store = getUserStore();
+    const user = await store.getByEmail(normalizeEmail(body.email));
+
+    if (user && user.status !== UserStatus.SUSPENDED) {
+      // Not awaited: answering only after the token write and mail send would make
+      // known emails measurably slower than unknown ones
+      sendResetLink(user, store).catch((err) => console.error('POST /api/auth/password-reset error', err));
+    }
+  } catch (err) {
+    // Log but keep the response identical so failures don't reveal account existence
+    console.error('POST /api/auth/password-reset error', err);
+  }
+
+  return NextResponse.json(ACCEPTED_RESPONSE, { status: 202 });
+}
+
+async function sendResetLink(user: User, store: UserStore) {
+  // Issuing a new token replaces (and so invalidates) any earlier one
+  const { token, tokenHash, expiresAt } = createOneTimeToken(user.id, RESET_TOKEN_TTL_MS);
+  await store.updateById(user.id, { resetToken: tokenHash, resetTokenExpiry: expiresAt });
+
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+  await getMailTransport().send({
+    to: user.email,
+    subject: 'Reset your ShopFlux password',
+    text: [
+      'We received a request to reset the password for your ShopFlux account.',
+      '',
+      `Reset your password: ${link}`,
+      '',
+      'This link expires in one hour and can only be used once.',
+      "If you didn't ask for this, you can ignore this email.",
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { UserStatus } from '../../../../types/user';
+import type { AuthResponse } from '../../../../types/user';
+import { getUserStore, sanitizeUser } from '../../../../lib/users';
+import { isSessionRevoked, issueAuthTokens, revokeToken, verifyToken } from '../../../../lib/auth';
+
+/**
+ * app/api/auth/refresh/route.ts
+ * POST /api/auth/refresh -> rotate a refresh token into a new token pair.
+ *
+ * Expected JSON body: { refreshToken: string }
+ * The presented refresh token is revoked, so each one can only be used once.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as { refreshToken?: string } | null;
+    if (!body || typeof body.refreshToken !== 'string') {
+      return NextResponse.json({ error: 'refreshToken is required' }, { status: 400 });
+    }
+
+    const claims = verifyToken(body.refreshToken, 'refresh');
+    if (!claims) {
+      return NextResponse.json({ error: 'Invalid or expired refresh token' }, { status: 401 });
+    }
+
+    const user = await getUserStore().getById(claims.sub);
+    if (!user || isSessionRevoked(claims, user)) {
+      revokeToken(claims);
+      return NextResponse.json({ error: 'Invalid or expired refresh token' }, { status: 401 });
+    }
+    if (user.status === UserStatus.SUSPENDED) {
+      revokeToken(claims);
+      return NextResponse.json({ error: 'Account suspended' }, { status: 403 });
+    }
+
+    revokeToken(claims);
+    const response: AuthResponse = {
+      user: sanitizeUser(user),
+      tokens: issueAuthTokens(user, { remember: claims.remember }),
+    };
+    return NextResponse.json(response);
+  } catch (err: any) {
+    console.error('POST /api/auth/refresh error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
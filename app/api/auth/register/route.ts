@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { UserRole, UserStatus } from '../../../../types/user';
+import type { AuthResponse, UserCreateDTO } from '../../../../types/user';
+import { getUserStore, normalizeEmail, sanitizeUser } from '../../../../lib/users';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../../../../lib/password';
+import { issueAuthTokens } from '../../../../lib/auth';
+import { sendVerificationEmail } from '../../../../lib/emailVerification';
+
+/**
+ * app/api/auth/register/route.ts
+ * POST /api/auth/register -> create a customer account and start a session.
+ *
+ * New accounts start as UserStatus.PENDING and are emailed a verification link;
+ * they can sign in right away but cannot place orders until verified.
+ *
+ * Expected JSON body: UserCreateDTO & { remember?: boolean }
+ * Responds with { user: SafeUser, tokens: AuthTokens }.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as (UserCreateDTO & { remember?: boolean }) | null;
+    if (!body || typeof body.email !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const email = normalizeEmail(body.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json({ error: 'Invalid email address' }, { status: 400 });
+    }
+    if (body.password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const store = getUserStore();
+    const existing = await store.getByEmail(email);
+    if (existing) {
+      return NextResponse.json({ error: 'Email already in use' }, { status: 409 });
+    }
+
+    // Self-service registration always creates customers; roles are granted by admins.
+    let created = await store.create({
+      email,
+      password: await hashPassword(body.password),
+      firstName: body.firstName,
+      lastName: body.lastName,
+      phone: body.phone,
+      role: UserRole.CUSTOMER,
+      status: UserStatus.PENDING,
+      emailVerified: false,
+    });
+
+    try {
+      created = await sendVerificationEmail(created, store);
+    } catch (mailErr) {
+      // The account exists either way; the user can request another link
+      console.error('POST /api/auth/register verification email error', mailErr);
+    }
+
+    const response: AuthResponse = {
+      user: sanitizeUser(created),
+      tokens: issueAuthTokens(created, { remember: body.remember }),
+    };
+    return NextResponse.json(response, { status: 201 });
+  } catch (err: any) {
+    console.error('POST /api/auth/register error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
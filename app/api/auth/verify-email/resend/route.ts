@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getUserStore, normalizeEmail } from '../../../../../lib/users';
+import { canResendVerification, getResendDelay, sendVerificationEmail } from '../../../../../lib/emailVerification';
+
+/**
+ * app/api/auth/verify-email/resend/route.ts
+ * POST /api/auth/verify-email/resend -> send a fresh verification link.
+ *
+ * Expected JSON body: { email: string }
+ * Always responds 202 with the same body so the endpoint cannot be used to probe
+ * for accounts, and sends the link in the background so the response time gives
+ * nothing away either. Sends are rate-limited per account (see lib/emailVerification);
+ * requests over the limit are accepted but no email goes out.
+ */
+
+const ACCEPTED_RESPONSE = {
+  success: true,
+  message: 'If that account is awaiting verification, a new link has been sent. Links can be requested once a minute.',
+};
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { email?: string } | null;
+  if (!body || typeof body.email !== 'string' || !body.email.trim()) {
+    return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+  }
+
+  try {
+    const store = getUserStore();
+    const user = await store.getByEmail(normalizeEmail(body.email));
+    if (user && canResendVerification(user) && getResendDelay(user) === 0) {
+      // Not awaited: answering only after the token write and mail send would make
+      // pending accounts measurably slower than other emails
+      sendVerificationEmail(user, store).catch((err) => console.error('POST /api/auth/verify-email/resend error', err));
+    }
+  } catch (err) {
+    console.error('POST /api/auth/verify-email/resend error', err);
+  }
+
+  return NextResponse.json(ACCEPTED_RESPONSE, { status: 202 });
+}
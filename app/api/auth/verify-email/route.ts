@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getUserStore, sanitizeUser } from '../../../../lib/users';
+import { confirmEmailVerification } from '../../../../lib/emailVerification';
+import { claimGuestOrders } from '../../../../lib/orders';
+
+/**
+ * app/api/auth/verify-email/route.ts
+ * POST /api/auth/verify-email -> confirm an email address with an emailed token.
+ *
+ * Expected JSON body: { token: string }
+ * On success the account moves from PENDING to ACTIVE with emailVerified: true, and
+ * guest orders placed with the same email are claimed into the account.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as { token?: string } | null;
+    if (!body || typeof body.token !== 'string') {
+      return NextResponse.json({ error: 'token is required' }, { status: 400 });
+    }
+
+    const user = await confirmEmailVerification(body.token, getUserStore());
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid or expired verification token' }, { status: 400 });
+    }
+
+    // Claiming is best effort; the verification itself already succeeded
+    let claimedOrders = 0;
+    try {
+      claimedOrders = await claimGuestOrders(user);
+    } catch (err) {
+      console.error('POST /api/auth/verify-email: failed to claim guest orders', err);
+    }
+
+    return NextResponse.json({ success: true, user: sanitizeUser(user), claimedOrders });
+  } catch (err: any) {
+    console.error('POST /api/auth/verify-email error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
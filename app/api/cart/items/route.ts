@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { authErrorResponse, requireAuth } from "../../../../lib/authz";
+import { addCartItem, CartError, parseCartItemInput, removeCartItem, setCartItemQuantity } from "../../../../lib/cart";
+
+/**
+ * API route: /api/cart/items
+ * Methods:
+ *  - POST:   Add units to the cart        body: { productId, variantId?, quantity? = 1 }
+ *  - PATCH:  Set the quantity of a line   body: { productId, variantId?, quantity } (0 removes it)
+ *  - DELETE: Remove a line                query: ?productId=...&variantId=...
+ *
+ * Products sold in variants need a variantId. A quantity beyond available stock is
+ * rejected with 409 and `available`. Requires a signed-in user. Responds with the
+ * whole cart:
+ *   { success: true, data: { items: CartLine[] } }
+ */
+
+function errorResponse(err: unknown, fallback: string) {
+  const denied = authErrorResponse(err);
+  if (denied) return denied;
+  if (err instanceof CartError) {
+    return NextResponse.json(
+      { success: false, error: err.message, ...(err.available !== undefined ? { available: err.available } : {}) },
+      { status: err.status }
+    );
+  }
+  const message = err instanceof Error ? err.message : fallback;
+  return NextResponse.json({ success: false, error: message }, { status: 500 });
+}
+
+export async function POST(request: Request) {
+  try {
+    const actor = await requireAuth(request);
+    const body = await request.json().catch(() => null);
+    const items = await addCartItem(actor.id, parseCartItemInput(body));
+    return NextResponse.json({ success: true, data: { items } }, { status: 200 });
+  } catch (err: unknown) {
+    return errorResponse(err, "Unknown error while adding to the cart.");
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const actor = await requireAuth(request);
+    const body = await request.json().catch(() => null);
+    const items = await setCartItemQuantity(actor.id, parseCartItemInput(body, { allowZero: true }));
+    return NextResponse.json({ success: true, data: { items } }, { status: 200 });
+  } catch (err: unknown) {
+    return errorResponse(err, "Unknown error while updating the cart.");
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const actor = await requireAuth(request);
+    const url = new URL(request.url);
+    const productId = url.searchParams.get("productId");
+    if (!productId) {
+      return NextResponse.json({ success: false, error: "'productId' is required." }, { status: 400 });
+    }
+    const items = await removeCartItem(actor.id, productId, url.searchParams.get("variantId") || undefined);
+    return NextResponse.json({ success: true, data: { items } }, { status: 200 });
+  } catch (err: unknown) {
+    return errorResponse(err, "Unknown error while removing from the cart.");
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { authErrorResponse, requireAuth } from "../../../../lib/authz";
+import { CartError, mergeCart, parseCartItemInput } from "../../../../lib/cart";
+
+/**
+ * API route: /api/cart/merge
+ * Methods:
+ *  - POST: Fold a guest (browser) cart into the signed-in user's cart
+ *          body: { items: { productId, variantId?, quantity }[], mergeId?: string }
+ *
+ * Called once after sign-in. Quantities of a line present in both carts are summed
+ * and capped at available stock; lines that can no longer be bought are dropped.
+ * `mergeId` identifies the guest cart: sending it again (a retry, or a second tab
+ * signing in at the same time) leaves the cart as the first merge left it.
+ * Responds with the merged cart and what had to change:
+ *   { success: true, data: { items: CartLine[], adjustments: CartAdjustment[] } }
+ */
+
+export async function POST(request: Request) {
+  try {
+    const actor = await requireAuth(request);
+    const body = await request.json().catch(() => null);
+    if (!body || !Array.isArray(body.items)) {
+      return NextResponse.json({ success: false, error: "'items' must be an array." }, { status: 400 });
+    }
+    if (body.mergeId !== undefined && (typeof body.mergeId !== "string" || !body.mergeId.trim())) {
+      return NextResponse.json({ success: false, error: "'mergeId' must be a non-empty string." }, { status: 400 });
+    }
+
+    const guestItems = body.items.map((item: unknown, idx: number) => {
+      try {
+        return parseCartItemInput(item);
+      } catch (err) {
+        if (err instanceof CartError) throw new CartError(`items[${idx}]: ${err.message}`, err.status);
+        throw err;
+      }
+    });
+
+    const data = await mergeCart(actor.id, guestItems, body.mergeId);
+    return NextResponse.json({ success: true, data }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof CartError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while merging the cart.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { authErrorResponse, requireAuth } from "../../../lib/authz";
+import { CartError, clearCart, getCart } from "../../../lib/cart";
+
+/**
+ * API route: /api/cart
+ * Methods:
+ *  - GET:    The signed-in user's cart, each line with its current product
+ *  - DELETE: Empty the cart
+ *
+ * Lines are changed through /api/cart/items; a guest cart is folded in at sign-in
+ * through /api/cart/merge. Requires a signed-in user. Responds with
+ *   { success: true, data: { items: CartLine[] } }
+ */
+
+export async function GET(request: Request) {
+  try {
+    const actor = await requireAuth(request);
+    const items = await getCart(actor.id);
+    return NextResponse.json({ success: true, data: { items } }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof CartError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while loading the cart.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const actor = await requireAuth(request);
+    const items = await clearCart(actor.id);
+    return NextResponse.json({ success: true, data: { items } }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof CartError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while clearing the cart.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/inventory/alerts/route.ts
+import { NextResponse } from "next/server";
+import { UserRole } from "../../../../types/user";
+import { authErrorResponse, requireAuth, requireRole } from "../../../../lib/authz";
+import { listLowStockProducts } from "../../../../lib/inventory";
+import { requireDatabaseStorage, StorageConfigError } from "../../../../lib/storage";
+
+/**
+ * Low-stock report (admins only).
+ *
+ *   GET /api/inventory/alerts -> { data: LowStockAlert[] }
+ *
+ * Lists every product whose stock is at or below its lowStockThreshold, lowest first.
+ * The same alerts are pushed to onLowStock() listeners as stock crosses the threshold.
+ */
+
+export async function GET(req: Request) {
+  try {
+    requireDatabaseStorage("Stock movements");
+    const actor = await requireAuth(req);
+    requireRole(actor, UserRole.ADMIN);
+
+    const alerts = await listLowStockProducts();
+    return NextResponse.json({ data: alerts }, { status: 200 });
+  } catch (err) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof StorageConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    console.error("GET /api/inventory/alerts error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
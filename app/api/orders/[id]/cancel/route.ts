@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import prisma from "../../../../../lib/db";
+import { AuthError, authErrorResponse, getAuthUser } from "../../../../../lib/authz";
+import { canManageOrder } from "../../../../../lib/orders";
+import { OrderStatusError } from "../../../../../lib/orderStatus";
+import { PaymentError } from "../../../../../lib/payments";
+import { cancelOrder } from "../../../../../lib/cancellations";
+import { requireDatabaseStorage } from "../../../../../lib/storage";
+
+/**
+ * API route: /api/orders/[id]/cancel
+ * Methods:
+ *  - POST: Cancel a pending or processing order (owner or admin); see lib/cancellations
+ *
+ * Body (optional): { reason?: string, email?: string }
+ * Guests cancel their order by passing its contact email as `email`.
+ *
+ * Every item is returned to stock and an open payment is voided. Paid orders are
+ * refunded in full; if that refund fails the order stays cancelled and the response
+ * carries `refundError`. Orders that have shipped get 409.
+ * Responds 200 { success, data: { order, refund, refundError } }.
+ */
+
+type RouteContext = { params: { id: string } };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await getAuthUser(request);
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    for (const key of ["reason", "email"] as const) {
+      if (body?.[key] !== undefined && typeof body[key] !== "string") {
+        return NextResponse.json({ success: false, error: `Invalid '${key}'. Must be a string.` }, { status: 400 });
+      }
+    }
+    const reason = body?.reason as string | undefined;
+    const email = body?.email as string | undefined;
+
+    const order = await prisma.order.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true, contactEmail: true },
+    });
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+    if (order.userId && !actor) throw new AuthError("Authentication required", 401);
+    if (!canManageOrder(actor, order, email)) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    const result = await cancelOrder(order.id, { actorId: actor?.id, reason });
+    return NextResponse.json({ success: true, data: result }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof OrderStatusError || err instanceof PaymentError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while cancelling order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import prisma from "../../../../../lib/db";
+import type { PaymentResult } from "../../../../../types/order";
+import { AuthError, authErrorResponse, getAuthUser, isAdmin } from "../../../../../lib/authz";
+import { canManageOrder, markOrderPaid } from "../../../../../lib/orders";
+import { OrderStatusError } from "../../../../../lib/orderStatus";
+import { getPaymentProvider, PaymentError } from "../../../../../lib/payments";
+import { requireDatabaseStorage } from "../../../../../lib/storage";
+import { fromJson } from "../../../../../lib/rows";
+
+/**
+ * API route: /api/orders/[id]/pay
+ * Methods:
+ *  - POST: Pay for a pending order through a payment provider (see lib/payments)
+ *
+ * Two steps, matching the provider intent flow:
+ *   1. { provider? }                     -> 201 { success, data: { intent } }
+ *      Creates a payment intent for the order total and remembers it on the order.
+ *      Shoppers always pay with the configured provider (PAYMENT_PROVIDER) and
+ *      `provider` is ignored; only admins may choose one, e.g. "manual" to record
+ *      an offline payment.
+ *   2. { intentId, paymentDetails? }     -> 200 { success, data: order }
+ *      Confirms the intent, stores paymentResult, sets isPaid/paidAt and moves the
+ *      order to processing.
+ * Send { confirm: true } with step 1 to do both at once (e.g. with the manual provider).
+ *
+ * Authorization: the order's owner or an admin. Guest orders are paid by passing the
+ * order's contact email as `email`. Declined payments return 402.
+ */
+
+type RouteContext = { params: { id: string } };
+
+interface PayRequest {
+  provider?: string;
+  intentId?: string;
+  confirm?: boolean;
+  paymentDetails?: Record<string, unknown>;
+  email?: string;
+}
+
+function validatePayPayload(payload: unknown): PayRequest {
+  if (payload === null || payload === undefined) return {};
+  if (typeof payload !== "object" || Array.isArray(payload)) {
+    throw new PaymentError("Payload must be a JSON object.", 400);
+  }
+  const p = payload as Record<string, unknown>;
+  for (const key of ["provider", "intentId", "email"] as const) {
+    if (p[key] !== undefined && typeof p[key] !== "string") {
+      throw new PaymentError(`Invalid '${key}'. Must be a string.`, 400);
+    }
+  }
+  if (p.confirm !== undefined && typeof p.confirm !== "boolean") {
+    throw new PaymentError("Invalid 'confirm'. Must be a boolean.", 400);
+  }
+  if (p.paymentDetails !== undefined && (typeof p.paymentDetails !== "object" || p.paymentDetails === null)) {
+    throw new PaymentError("Invalid 'paymentDetails'. Must be an object.", 400);
+  }
+  return p as PayRequest;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await getAuthUser(request);
+    const input = validatePayPayload(await request.json().catch(() => null));
+
+    const order = await prisma.order.findUnique({ where: { id: params.id } });
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    // Owners and admins pay with a session; guests prove ownership with the contact email
+    if (order.userId && !actor) throw new AuthError("Authentication required", 401);
+    if (!canManageOrder(actor, order, input.email)) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    if (order.isPaid) {
+      throw new OrderStatusError("Order is already paid.");
+    }
+    if (order.status !== "pending") {
+      throw new OrderStatusError(`Orders in '${order.status}' cannot be paid.`);
+    }
+
+    const pending = fromJson<PaymentResult>(order.paymentResult);
+    const admin = isAdmin(actor);
+    // An open intent is confirmed with the provider that created it
+    const requested = input.intentId ? pending?.provider : admin ? input.provider : undefined;
+    const provider = getPaymentProvider(requested, { allowManual: admin });
+    const amount = Number(order.totalPrice);
+    const currency = order.currency ?? "USD";
+
+    let intentId = input.intentId;
+    if (!intentId) {
+      const intent = await provider.createIntent({ orderId: order.id, amount, currency });
+
+      // Remember the open intent so only it can be confirmed for this order
+      const { count } = await prisma.order.updateMany({
+        where: { id: order.id, status: "pending", isPaid: false },
+        data: {
+          paymentResult: {
+            provider: provider.name,
+            transactionId: intent.id,
+            status: intent.status,
+            amount,
+            currency,
+          },
+        },
+      });
+      if (count === 0) {
+        throw new OrderStatusError("Order changed while starting the payment. Reload and try again.");
+      }
+
+      if (!input.confirm) {
+        return NextResponse.json({ success: true, data: { intent } }, { status: 201 });
+      }
+      intentId = intent.id;
+    } else if (pending?.transactionId !== intentId || pending?.provider !== provider.name) {
+      throw new PaymentError("Unknown payment intent for this order.", 409);
+    }
+
+    const paymentResult = await provider.confirmIntent({
+      intentId,
+      orderId: order.id,
+      amount,
+      currency,
+      paymentDetails: input.paymentDetails,
+    });
+    if (paymentResult.status && paymentResult.status !== "succeeded") {
+      throw new PaymentError(`Payment ${paymentResult.status}.`);
+    }
+
+    const updated = await markOrderPaid({ orderId: order.id, paymentResult });
+    return NextResponse.json({ success: true, data: updated }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof PaymentError || err instanceof OrderStatusError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while paying for order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import prisma from "../../../../../lib/db";
+import { UserRole } from "../../../../../types/user";
+import type { RefundOrderInput } from "../../../../../types/order";
+import { authErrorResponse, canAccessUser, requireAuth, requireRole } from "../../../../../lib/authz";
+import { OrderStatusError } from "../../../../../lib/orderStatus";
+import { PaymentError } from "../../../../../lib/payments";
+import { listOrderRefunds, refundOrder } from "../../../../../lib/refunds";
+import { requireDatabaseStorage } from "../../../../../lib/storage";
+
+/**
+ * API route: /api/orders/[id]/refunds
+ * Methods:
+ *  - GET:  List refunds issued for the order (owner or admin)
+ *  - POST: Refund the whole order or specific lines (admin only); see lib/refunds
+ *
+ * POST body: RefundOrderInput (types/order), e.g.
+ *   {}                                                         -> refund everything left
+ *   { items: [{ orderItemId: "li_1", quantity: 1 }], reason }  -> refund one unit
+ *   { amount: 5, reason: "late delivery", restock: false }     -> money only
+ * Responds 201 { success, data: { refund, order } }. The order moves to 'refunded'
+ * once its whole total has been refunded.
+ */
+
+type RouteContext = { params: { id: string } };
+
+function validateRefundPayload(payload: unknown): RefundOrderInput {
+  if (payload === null || payload === undefined) return {};
+  if (typeof payload !== "object" || Array.isArray(payload)) {
+    throw new OrderStatusError("Payload must be a JSON object.", 400);
+  }
+  const p = payload as Record<string, unknown>;
+
+  let items: RefundOrderInput["items"];
+  if (p.items !== undefined) {
+    if (!Array.isArray(p.items)) {
+      throw new OrderStatusError("'items' must be an array.", 400);
+    }
+    items = p.items.map((it, idx) => {
+      const item = (typeof it === "object" && it !== null ? it : {}) as Record<string, unknown>;
+      if (typeof item.orderItemId !== "string" || !item.orderItemId) {
+        throw new OrderStatusError(`Missing or invalid 'orderItemId' for item at index ${idx}.`, 400);
+      }
+      if (typeof item.quantity !== "number" || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new OrderStatusError(`Invalid 'quantity' for item at index ${idx}. Must be a positive integer.`, 400);
+      }
+      return { orderItemId: item.orderItemId, quantity: item.quantity };
+    });
+    const ids = items.map((i) => i.orderItemId);
+    if (new Set(ids).size !== ids.length) {
+      throw new OrderStatusError("Each order item may only be listed once.", 400);
+    }
+  }
+  if (p.amount !== undefined && (typeof p.amount !== "number" || !Number.isFinite(p.amount) || p.amount <= 0)) {
+    throw new OrderStatusError("Invalid 'amount'. Must be a positive number.", 400);
+  }
+  if (p.reason !== undefined && typeof p.reason !== "string") {
+    throw new OrderStatusError("Invalid 'reason'. Must be a string.", 400);
+  }
+  if (p.restock !== undefined && typeof p.restock !== "boolean") {
+    throw new OrderStatusError("Invalid 'restock'. Must be a boolean.", 400);
+  }
+
+  return {
+    items,
+    amount: p.amount as number | undefined,
+    reason: p.reason as string | undefined,
+    restock: p.restock as boolean | undefined,
+  };
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+
+    const order = await prisma.order.findUnique({ where: { id: params.id }, select: { id: true, userId: true } });
+    if (!order || !canAccessUser(actor, order.userId)) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    const refunds = await listOrderRefunds(order.id);
+    return NextResponse.json({ success: true, data: refunds }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    const message = err instanceof Error ? err.message : "Unknown error while fetching refunds.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+    requireRole(actor, UserRole.ADMIN);
+
+    const input = validateRefundPayload(await request.json().catch(() => null));
+    const result = await refundOrder(params.id, input, actor.id);
+
+    return NextResponse.json({ success: true, data: result }, { status: 201 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof OrderStatusError || err instanceof PaymentError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while refunding order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,179 @@
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import prisma from "../../../../lib/db";
+import type { PaymentResult } from "../../../../types/order";
+import { UserRole } from "../../../../types/user";
+import { assertCanAccessUser, authErrorResponse, canAccessUser, requireAuth, requireRole } from "../../../../lib/authz";
+import { CartError } from "../../../../lib/cart";
+import { pricePlacedOrder, quoteCharges, validateShippingAddress } from "../../../../lib/checkout";
+import { ORDER_INCLUDE } from "../../../../lib/orders";
+import { fromJson, toJson } from "../../../../lib/rows";
+import { isShippingServiceLevel, ShippingError } from "../../../../lib/shipping";
+import { requireDatabaseStorage } from "../../../../lib/storage";
+
+/**
+ * API route: /api/orders/[id]
+ * Methods (matching getOrderById in lib/api):
+ *  - GET:    Return a single order with items and user info (owner or admin)
+ *  - PATCH:  Update customer-editable details - notes, and the shipping address while
+ *            the order is pending and no payment has started (owner or admin). A new
+ *            address is validated as in POST /api/orders, and shipping, tax and the
+ *            total are quoted again for it (lib/checkout).
+ *  - PUT:    Same as PATCH
+ *  - DELETE: Remove a cancelled order (admin only); returns 204
+ *
+ * Status changes go through PATCH /api/orders/[id]/status instead, and payment
+ * through POST /api/orders/[id]/pay.
+ */
+
+type RouteContext = { params: { id: string } };
+
+/* ------------------------------- GET Handler ----------------------------- */
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+
+    const order = await prisma.order.findUnique({ where: { id: params.id }, include: ORDER_INCLUDE });
+    // Respond 404 rather than 403 for other users' orders so ids can't be probed
+    if (!order || !canAccessUser(actor, order.userId)) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    return NextResponse.json(order, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    const message = err instanceof Error ? err.message : "Unknown error while fetching order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+/* ------------------------------ PATCH Handler ---------------------------- */
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+
+    const payload = await request.json().catch(() => null);
+    if (typeof payload !== "object" || payload === null) {
+      return NextResponse.json({ success: false, error: "Payload must be a JSON object." }, { status: 400 });
+    }
+    const p = payload as Record<string, unknown>;
+
+    const order = await prisma.order.findUnique({ where: { id: params.id } });
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+    assertCanAccessUser(actor, order.userId);
+
+    const data: Prisma.OrderUpdateManyMutationInput = {};
+    if (p.notes !== undefined) {
+      if (p.notes !== null && typeof p.notes !== "string") {
+        return NextResponse.json({ success: false, error: "Invalid 'notes'. Must be a string." }, { status: 400 });
+      }
+      data.notes = p.notes;
+    }
+    if (p.shippingAddress !== undefined) {
+      if (order.status !== "pending") {
+        return NextResponse.json(
+          { success: false, error: "The shipping address can only be changed while the order is pending." },
+          { status: 409 }
+        );
+      }
+      // An open intent was created for the current total, which a new address may change
+      const payment = fromJson<PaymentResult>(order.paymentResult);
+      if (payment?.transactionId && payment.status !== "failed") {
+        return NextResponse.json(
+          { success: false, error: "The shipping address cannot be changed once a payment has been started." },
+          { status: 409 }
+        );
+      }
+      const fieldErrors: Record<string, string> = {};
+      const shippingAddress = validateShippingAddress(p.shippingAddress, fieldErrors);
+      if (!shippingAddress) {
+        return NextResponse.json(
+          { success: false, error: Object.values(fieldErrors)[0], fieldErrors },
+          { status: 400 }
+        );
+      }
+
+      // Lines keep the prices they were ordered at; shipping and tax follow the address
+      const items = await prisma.orderItem.findMany({ where: { orderId: order.id } });
+      const service = isShippingServiceLevel(order.shippingService) ? order.shippingService : "standard";
+      const { tax, totals } = quoteCharges(await pricePlacedOrder(items), service, shippingAddress);
+      data.shippingAddress = toJson(shippingAddress);
+      data.shippingPrice = totals.shippingPrice;
+      data.taxPrice = totals.taxPrice;
+      data.taxInclusive = tax.inclusive;
+      data.totalPrice = totals.totalPrice;
+    }
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Nothing to update. Editable fields: notes, shippingAddress." },
+        { status: 400 }
+      );
+    }
+
+    // Conditional on updatedAt so a payment started meanwhile is not quoted a stale total
+    const { count } = await prisma.order.updateMany({
+      where: { id: order.id, status: order.status, updatedAt: order.updatedAt },
+      data,
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: "Order changed while updating it. Reload and try again." },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.order.findUnique({ where: { id: order.id }, include: ORDER_INCLUDE });
+    return NextResponse.json(updated, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof CartError || err instanceof ShippingError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while updating order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+export const PUT = PATCH;
+
+/* ------------------------------ DELETE Handler --------------------------- */
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+    requireRole(actor, UserRole.ADMIN);
+
+    const order = await prisma.order.findUnique({ where: { id: params.id } });
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+    // Only cancelled orders can be removed; anything else still affects stock or payments
+    if (order.status !== "cancelled") {
+      return NextResponse.json(
+        { success: false, error: `Only cancelled orders can be deleted (order is '${order.status}').` },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.orderItem.deleteMany({ where: { orderId: order.id } }),
+      prisma.orderRefund.deleteMany({ where: { orderId: order.id } }),
+      prisma.order.delete({ where: { id: order.id } }),
+    ]);
+    return new NextResponse(null, { status: 204 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    const message = err instanceof Error ? err.message : "Unknown error while deleting order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
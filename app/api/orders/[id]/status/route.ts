@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import prisma from "../../../../../lib/db";
+import { UserRole } from "../../../../../types/user";
+import type { UpdateOrderStatusInput } from "../../../../../types/order";
+import { authErrorResponse, requireAuth, requireRole } from "../../../../../lib/authz";
+import { OrderStatusError, planStatusTransition, toStatusSnapshot } from "../../../../../lib/orderStatus";
+import { PaymentError } from "../../../../../lib/payments";
+import { refundOrder } from "../../../../../lib/refunds";
+import { cancelOrder } from "../../../../../lib/cancellations";
+import { requireDatabaseStorage } from "../../../../../lib/storage";
+
+/**
+ * API route: /api/orders/[id]/status
+ * Methods:
+ *  - PATCH: Move an order to a new status (admin / fulfillment only)
+ *
+ * Body: UpdateOrderStatusInput without orderId (taken from the URL), e.g.
+ *   { status: "shipped", trackingNumber: "1Z999", shippingCarrier: "UPS" }
+ *
+ * Transitions are validated by lib/orderStatus. Illegal moves (e.g. delivered -> pending)
+ * return 409. The update only applies if the order is still in the status it was read in,
+ * so two concurrent changes cannot both succeed.
+ *
+ * Moving to 'refunded' issues a full refund of the remaining balance through
+ * lib/refunds (same as POST /api/orders/[id]/refunds with an empty body), and moving
+ * to 'cancelled' restocks and voids payment through lib/cancellations (same as
+ * POST /api/orders/[id]/cancel).
+ */
+
+type RouteContext = { params: { id: string } };
+
+function validateStatusPayload(payload: unknown, orderId: string): Omit<UpdateOrderStatusInput, "orderId"> {
+  if (typeof payload !== "object" || payload === null) {
+    throw new OrderStatusError("Payload must be a JSON object.", 400);
+  }
+  const p = payload as Record<string, unknown>;
+
+  if (p.orderId !== undefined && p.orderId !== orderId) {
+    throw new OrderStatusError("'orderId' in body does not match the URL.", 400);
+  }
+  if (typeof p.status !== "string") {
+    throw new OrderStatusError("Missing or invalid 'status'.", 400);
+  }
+  for (const key of ["paidAt", "deliveredAt", "trackingNumber", "shippingCarrier", "notes"] as const) {
+    if (p[key] !== undefined && typeof p[key] !== "string") {
+      throw new OrderStatusError(`Invalid '${key}'. Must be a string.`, 400);
+    }
+  }
+  for (const key of ["paidAt", "deliveredAt"] as const) {
+    if (typeof p[key] === "string" && Number.isNaN(Date.parse(p[key] as string))) {
+      throw new OrderStatusError(`Invalid '${key}'. Must be an ISO date-time.`, 400);
+    }
+  }
+  for (const key of ["isPaid", "isDelivered"] as const) {
+    if (p[key] !== undefined && typeof p[key] !== "boolean") {
+      throw new OrderStatusError(`Invalid '${key}'. Must be a boolean.`, 400);
+    }
+  }
+
+  return p as unknown as Omit<UpdateOrderStatusInput, "orderId">;
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+    requireRole(actor, UserRole.ADMIN);
+
+    const payload = await request.json().catch(() => null);
+    const input = validateStatusPayload(payload, params.id);
+
+    const order = await prisma.order.findUnique({ where: { id: params.id } });
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    const patch = planStatusTransition(toStatusSnapshot(order), input);
+
+    if (input.status === "cancelled" && order.status !== "cancelled") {
+      const { order: cancelled } = await cancelOrder(order.id, { actorId: actor.id, reason: input.notes });
+      return NextResponse.json({ success: true, data: cancelled }, { status: 200 });
+    }
+    if (input.status === "refunded" && order.status !== "refunded") {
+      const { order: refunded } = await refundOrder(order.id, { reason: input.notes }, actor.id);
+      return NextResponse.json({ success: true, data: refunded }, { status: 200 });
+    }
+
+    // Conditional update guards against another request changing the status in between
+    const { count } = await prisma.order.updateMany({
+      where: { id: order.id, status: order.status },
+      data: patch,
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: "Order status changed concurrently. Reload and try again." },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.order.findUnique({
+      where: { id: order.id },
+      include: { items: true },
+    });
+
+    return NextResponse.json({ success: true, data: updated }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof OrderStatusError || err instanceof PaymentError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while updating order status.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
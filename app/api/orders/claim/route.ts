@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { authErrorResponse, requireAuth } from "../../../../lib/authz";
+import { claimGuestOrders } from "../../../../lib/orders";
+import { requireDatabaseStorage } from "../../../../lib/storage";
+
+/**
+ * API route: /api/orders/claim
+ * Methods:
+ *  - POST: Attach guest orders placed with the caller's email to their account
+ *
+ * Claiming also happens automatically when an email address is verified; this
+ * endpoint picks up guest orders placed afterwards (e.g. while signed out).
+ * Requires a signed-in user with a verified email. Responds with
+ *   { success: true, data: { claimed: number } }
+ */
+
+export async function POST(request: Request) {
+  try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+    if (actor.emailVerified !== true) {
+      return NextResponse.json(
+        { success: false, error: "Verify your email address to claim guest orders." },
+        { status: 403 }
+      );
+    }
+
+    const claimed = await claimGuestOrders(actor);
+    return NextResponse.json({ success: true, data: { claimed } }, { status: 200 });
+  } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    const message = err instanceof Error ? err.message : "Unknown error while claiming orders.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { findGuestOrder } from "../../../../lib/orders";
+import { requireDatabaseStorage } from "../../../../lib/storage";
+
+/**
+ * API route: /api/orders/lookup
+ * Methods:
+ *  - POST: Find an order by order number and contact email (no account needed)
+ *
+ * Expected payload: OrderLookupInput (types/order) - { orderNumber, email }.
+ * POST rather than GET so the email address stays out of URLs and access logs.
+ * A wrong email and an unknown order number both return the same 404.
+ */
+
+export async function POST(request: Request) {
+  try {
+    requireDatabaseStorage("Orders");
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const orderNumber = body?.orderNumber;
+    const email = body?.email;
+    if (typeof orderNumber !== "string" || !orderNumber.trim() || typeof email !== "string" || !email.trim()) {
+      return NextResponse.json(
+        { success: false, error: "'orderNumber' and 'email' are required." },
+        { status: 400 }
+      );
+    }
+
+    const order = await findGuestOrder(orderNumber, email);
+    if (!order) {
+      return NextResponse.json({ success: false, error: "Order not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: order }, { status: 200 });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error while looking up order.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
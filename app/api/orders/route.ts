@@ -1,6 +1,18 @@
 import { NextResponse } from "next/server";
 import prisma from "../../../lib/db";
-import type { Order as OrderType } from "../../../types/order";
+import type { CreateOrderInput } from "../../../types/order";
+import { getUserStore, normalizeEmail } from "../../../lib/users";
+import { isPendingVerification } from "../../../lib/emailVerification";
+import { assertCanAccessUser, AuthError, authErrorResponse, getAuthUser, isAdmin, requireAuth } from "../../../lib/authz";
+import { assertExpectedTotal, PriceMismatchError, storeCurrency } from "../../../lib/pricing";
+import { generateOrderNumber, ORDER_INCLUDE } from "../../../lib/orders";
+import { InsufficientStockError, notifyLowStock, reserveStock } from "../../../lib/inventory";
+import type { LowStockAlert } from "../../../types/product";
+import { CartError } from "../../../lib/cart";
+import { priceCart, ProductUnavailableError, quoteCharges, validateShippingAddress } from "../../../lib/checkout";
+import { isShippingServiceLevel, ShippingError, type ShippingServiceLevel } from "../../../lib/shipping";
+import { requireDatabaseStorage } from "../../../lib/storage";
+import { toJson } from "../../../lib/rows";
 
 /**
  * API route: /api/orders
@@ -8,8 +20,14 @@ import type { Order as OrderType } from "../../../types/order";
  *  - GET:  Return a list of orders (most recent first), including user and items
  *  - POST: Create a new order with items
  *
- * NOTE: This implementation assumes a Prisma-style client exported as default from lib/db
- * and a schema with models similar to: Order, OrderItem, Product, User.
+ * Authorization: listing requires a signed-in user. Admins see and may place orders
+ * for everyone; other users only see and place their own. Guests may place orders
+ * without an account by giving a contactEmail (see lib/orders for lookup and claiming).
+ *
+ * Items of products sold in variants must name a variantId; the variant's price and
+ * stock are used for that line (see lib/variants).
+ *
+ * Orders are stored through the Prisma client in lib/db (see prisma/schema.prisma).
  *
  * The code performs basic validation of the POST payload and returns detailed error responses.
  */
@@ -18,88 +36,153 @@ import type { Order as OrderType } from "../../../types/order";
 
 interface OrderItemRequest {
   productId: string;
+  // required for products sold in variants (see lib/variants)
+  variantId?: string;
   quantity: number;
-  // optional snapshot price to record price at time of order
+  // optional unit price the client saw; only used to explain a total mismatch
   price?: number;
 }
 
-interface CreateOrderRequest {
-  userId: string;
+/**
+ * Validated POST body. Mirrors CreateOrderInput from types/order, except that catalog
+ * data (item names, itemsPrice), tax and the currency come from the server and only
+ * the total the client expects to pay is kept for comparison.
+ */
+interface CreateOrderRequest
+  extends Pick<CreateOrderInput, "userId" | "contactEmail" | "shippingAddress" | "paymentMethod" | "notes" | "metadata"> {
   items: OrderItemRequest[];
-  shipping?: {
-    name?: string;
-    address?: string;
-    city?: string;
-    postalCode?: string;
-    country?: string;
-    phone?: string;
-  };
-  paymentMethod?: string;
-  total: number;
+  shippingService: ShippingServiceLevel;
+  // total the client expects to pay; must match catalog pricing and lib/tax
+  totalPrice: number;
+}
+
+/**
+ * Validation failure for a POST payload. `fieldErrors` maps a field path
+ * (e.g. "shippingAddress.city", "items[0].quantity") to a message so clients can
+ * show each problem next to the matching input.
+ */
+class OrderValidationError extends Error {
+  public fieldErrors: Record<string, string>;
+
+  constructor(fieldErrors: Record<string, string>) {
+    super(Object.values(fieldErrors)[0] ?? "Invalid order payload.");
+    this.name = "OrderValidationError";
+    this.fieldErrors = fieldErrors;
+  }
 }
 
 /* --------------------------- Utility Functions --------------------------- */
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
 /**
- * Simple validator for CreateOrderRequest
- * Throws an Error with a message describing the validation problem.
+ * Validator for CreateOrderRequest
+ * Collects every problem and throws an OrderValidationError listing them by field.
+ * `total` is still accepted as a legacy alias for `totalPrice`.
  */
 function validateOrderPayload(payload: unknown): CreateOrderRequest {
   if (typeof payload !== "object" || payload === null) {
-    throw new Error("Payload must be a JSON object.");
+    throw new OrderValidationError({ body: "Payload must be a JSON object." });
   }
 
   const p = payload as Record<string, unknown>;
+  const errors: Record<string, string> = {};
 
-  if (!p.userId || typeof p.userId !== "string") {
-    throw new Error("Missing or invalid 'userId'.");
+  if (p.userId !== undefined && (typeof p.userId !== "string" || !p.userId)) {
+    errors.userId = "Invalid 'userId'.";
+  }
+  if (p.contactEmail !== undefined && (typeof p.contactEmail !== "string" || !EMAIL_PATTERN.test(p.contactEmail.trim()))) {
+    errors.contactEmail = "Invalid 'contactEmail'.";
   }
 
+  const items: OrderItemRequest[] = [];
   if (!Array.isArray(p.items) || p.items.length === 0) {
-    throw new Error("'items' must be a non-empty array.");
-  }
+    errors.items = "'items' must be a non-empty array.";
+  } else {
+    p.items.forEach((it, idx) => {
+      if (typeof it !== "object" || it === null) {
+        errors[`items[${idx}]`] = `Item at index ${idx} must be an object.`;
+        return;
+      }
+      const item = it as Record<string, unknown>;
 
-  const items: OrderItemRequest[] = p.items.map((it, idx) => {
-    if (typeof it !== "object" || it === null) {
-      throw new Error(`Item at index ${idx} must be an object.`);
-    }
-    const item = it as Record<string, unknown>;
+      if (!item.productId || typeof item.productId !== "string") {
+        errors[`items[${idx}].productId`] = `Missing or invalid 'productId' for item at index ${idx}.`;
+      }
+      if (item.variantId !== undefined && (typeof item.variantId !== "string" || !item.variantId)) {
+        errors[`items[${idx}].variantId`] = `Invalid 'variantId' for item at index ${idx}.`;
+      }
+      if (
+        typeof item.quantity !== "number" ||
+        !Number.isFinite(item.quantity) ||
+        item.quantity <= 0 ||
+        Math.floor(item.quantity) !== item.quantity
+      ) {
+        errors[`items[${idx}].quantity`] = `Missing or invalid 'quantity' for item at index ${idx}. Must be a positive integer.`;
+      }
+      if (item.price !== undefined && !isNonNegativeNumber(item.price)) {
+        errors[`items[${idx}].price`] = `Invalid 'price' for item at index ${idx}.`;
+      }
 
-    if (!item.productId || typeof item.productId !== "string") {
-      throw new Error(`Missing or invalid 'productId' for item at index ${idx}.`);
-    }
-    if (
-      typeof item.quantity !== "number" ||
-      !Number.isFinite(item.quantity) ||
-      item.quantity <= 0 ||
-      Math.floor(item.quantity) !== item.quantity
-    ) {
-      throw new Error(`Missing or invalid 'quantity' for item at index ${idx}. Must be a positive integer.`);
-    }
+      items.push({
+        productId: item.productId as string,
+        variantId: item.variantId as string | undefined,
+        quantity: item.quantity as number,
+        price: item.price as number | undefined,
+      });
+    });
+  }
 
-    const price =
-      item.price === undefined ? undefined : typeof item.price === "number" && Number.isFinite(item.price) ? item.price : (() => { throw new Error(`Invalid 'price' for item at index ${idx}.`); })();
+  const shippingAddress = validateShippingAddress(p.shippingAddress, errors);
 
-    return {
-      productId: item.productId,
-      quantity: item.quantity,
-      price,
-    };
-  });
+  if (typeof p.paymentMethod !== "string" || !p.paymentMethod.trim()) {
+    errors.paymentMethod = "Missing or invalid 'paymentMethod'.";
+  }
 
-  if (typeof p.total !== "number" || !Number.isFinite(p.total) || p.total < 0) {
-    throw new Error("Missing or invalid 'total'. Must be a non-negative number.");
+  const totalPrice = p.totalPrice ?? p.total;
+  if (!isNonNegativeNumber(totalPrice)) {
+    errors.totalPrice = "Missing or invalid 'totalPrice'. Must be a non-negative number.";
+  }
+  if (p.shippingService !== undefined && !isShippingServiceLevel(p.shippingService)) {
+    errors.shippingService = "Invalid 'shippingService'. Must be 'standard' or 'express'.";
+  }
+  for (const field of ["shippingPrice", "taxPrice"] as const) {
+    if (p[field] !== undefined && !isNonNegativeNumber(p[field])) {
+      errors[field] = `Invalid '${field}'. Must be a non-negative number.`;
+    }
+  }
+  // Orders are always in the catalog currency; a client expecting another one is rejected
+  // rather than charged the same numbers in a different currency
+  if (p.currency !== undefined && (typeof p.currency !== "string" || p.currency.trim().toUpperCase() !== storeCurrency())) {
+    errors.currency = `Invalid 'currency'. Orders are placed in ${storeCurrency()}.`;
+  }
+  if (p.notes !== undefined && typeof p.notes !== "string") {
+    errors.notes = "Invalid 'notes'.";
+  }
+  if (p.metadata !== undefined && (typeof p.metadata !== "object" || p.metadata === null || Array.isArray(p.metadata))) {
+    errors.metadata = "Invalid 'metadata'.";
   }
 
-  const shipping = p.shipping && typeof p.shipping === "object" ? (p.shipping as CreateOrderRequest["shipping"]) : undefined;
-  const paymentMethod = p.paymentMethod && typeof p.paymentMethod === "string" ? p.paymentMethod : undefined;
+  if (Object.keys(errors).length > 0 || !shippingAddress) {
+    throw new OrderValidationError(errors);
+  }
 
   return {
-    userId: p.userId,
+    userId: p.userId as string | undefined,
+    contactEmail: typeof p.contactEmail === "string" ? normalizeEmail(p.contactEmail) : undefined,
     items,
-    shipping,
-    paymentMethod,
-    total: p.total,
+    shippingAddress,
+    paymentMethod: (p.paymentMethod as string).trim(),
+    // Shipping (lib/shipping) and tax (lib/tax) are always computed on the server, so
+    // the client's shippingPrice and taxPrice are not kept
+    shippingService: (p.shippingService as ShippingServiceLevel | undefined) ?? "standard",
+    totalPrice: totalPrice as number,
+    notes: p.notes as string | undefined,
+    metadata: p.metadata as Record<string, unknown> | undefined,
   };
 }
 
@@ -108,34 +191,38 @@ function validateOrderPayload(payload: unknown): CreateOrderRequest {
 /**
  * GET /api/orders
  * Returns a list of orders with related items and user info.
+ * Admins get every order; everyone else gets only their own.
  */
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    requireDatabaseStorage("Orders");
+    const actor = await requireAuth(request);
+
     // Fetch orders, include items and product snapshots if available, and user reference
-    // This query assumes Prisma models with relations: Order -> items -> product, and Order -> user
     const orders = await prisma.order.findMany({
+      where: isAdmin(actor) ? undefined : { userId: actor.id },
       orderBy: { createdAt: "desc" },
       include: {
         items: {
           include: {
-            product: true, // include product snapshot if schema allows
+            product: true,
           },
         },
         user: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
       },
     });
 
-    // Cast to the application's OrderType if appropriate
-    const result: Partial<OrderType>[] = orders;
-
-    return NextResponse.json({ success: true, data: result }, { status: 200 });
+    return NextResponse.json({ success: true, data: orders }, { status: 200 });
   } catch (err: unknown) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
     // If prisma.order does not exist or another error occurs, return a server error with message
     const message = err instanceof Error ? err.message : "Unknown error while fetching orders.";
     return NextResponse.json({ success: false, error: message }, { status: 500 });
@@ -148,114 +235,154 @@ export async function GET() {
  * POST /api/orders
  * Create a new order with the provided items and metadata.
  *
- * Expected payload:
- * {
- *   userId: string,
- *   items: [{ productId: string, quantity: number, price?: number }],
- *   shipping?: { ... },
- *   paymentMethod?: string,
- *   total: number
- * }
+ * Prices come from the catalog (see lib/pricing), shipping from the chosen
+ * `shippingService` (see lib/shipping, as listed by POST /api/shipping/rates) and tax
+ * from the shipping address (see lib/tax, as in POST /api/tax/estimate), never from
+ * the client. `totalPrice` is the amount the client expects to pay; if it disagrees with
+ * the server's total the order is rejected with 422 and a line-by-line breakdown:
+ *   { success: false, error, code: "PRICE_MISMATCH", expectedTotal, totals, lines }
+ *
+ * Expected payload: CreateOrderInput (types/order). `userId` defaults to the signed-in
+ * user and `contactEmail` to their account email. Without a bearer token the order is
+ * a guest order: `userId` must be omitted and `contactEmail` is required.
+ * Validation problems return 400 with every failing field:
+ *   { success: false, error, fieldErrors: { "shippingAddress.city": "...", ... } }
+ *
+ * Every order gets an `orderNumber`; guests use it with their email at POST /api/orders/lookup.
+ *
+ * Lines are checked by lib/checkout like the quotes: an unknown product is 404 and a
+ * wrong or missing variant 422, naming the line. Discontinued products (isActive: false,
+ * see lib/cartRevalidation) cannot be ordered; the order is rejected with 409 listing
+ * each such line by its index in `items`:
+ *   { success: false, error, code: "PRODUCT_UNAVAILABLE", items: [{ index, productId, variantId, name }] }
+ *
+ * Stock is reserved atomically inside the order transaction (lib/inventory). If any
+ * line is short the whole order is rolled back with 409:
+ *   { success: false, error, code: "INSUFFICIENT_STOCK", items: [{ productId, name, requested, available }] }
  */
 export async function POST(request: Request) {
   try {
+    requireDatabaseStorage("Orders");
+    const actor = await getAuthUser(request);
     const payload = await request.json();
     const data = validateOrderPayload(payload);
 
-    // Basic existence checks: ensure user exists and products exist with sufficient stock if applicable.
-    // This implementation performs optimistic checks and uses a DB transaction.
-    const user = await prisma.user.findUnique({ where: { id: data.userId } });
-    if (!user) {
-      return NextResponse.json({ success: false, error: "User not found." }, { status: 404 });
-    }
-
-    // Fetch all involved products
-    const productIds = Array.from(new Set(data.items.map((i) => i.productId)));
-    const products = await prisma.product.findMany({
-      where: { id: { in: productIds } },
-      select: { id: true, price: true, stock: true, name: true },
-    });
-
-    const productsById = new Map(products.map((p) => [p.id, p]));
+    let userId: string | null = null;
+    let contactEmail = data.contactEmail;
+    if (actor) {
+      userId = data.userId ?? actor.id;
+      assertCanAccessUser(actor, userId);
 
-    // Validate each item references an existing product and has sufficient stock (if stock is tracked)
-    for (const item of data.items) {
-      const prod = productsById.get(item.productId);
-      if (!prod) {
+      // Basic existence check: ensure the user exists and may place orders
+      const user = await getUserStore().getById(userId);
+      if (!user) {
+        return NextResponse.json({ success: false, error: "User not found." }, { status: 404 });
+      }
+      if (isPendingVerification(user)) {
         return NextResponse.json(
-          { success: false, error: `Product not found: ${item.productId}` },
-          { status: 404 }
+          { success: false, error: "Please verify your email address before placing orders." },
+          { status: 403 }
         );
       }
-      if (typeof prod.stock === "number") {
-        if (prod.stock < item.quantity) {
-          return NextResponse.json(
-            { success: false, error: `Insufficient stock for product ${prod.name} (${prod.id}). Requested ${item.quantity}, available ${prod.stock}.` },
-            { status: 400 }
-          );
-        }
+      contactEmail = contactEmail ?? normalizeEmail(user.email);
+    } else {
+      if (data.userId) {
+        throw new AuthError("Sign in to place orders for an account.", 401);
+      }
+      if (!contactEmail) {
+        throw new OrderValidationError({ contactEmail: "An email address is required for guest checkout." });
       }
     }
 
+    // Load and price every line as the shipping and tax quotes do (lib/checkout), then
+    // add shipping and tax and check the client's expected total
+    const cart = await priceCart(data.items);
+    const { lines, productsById } = cart;
+    const { shipping, tax } = quoteCharges(cart, data.shippingService, data.shippingAddress);
+    const totals = assertExpectedTotal(lines, data.totalPrice, shipping.shippingPrice, tax.taxPrice, tax.inclusive);
+
     // Create order and order items in a transaction
+    let lowStock: LowStockAlert[] = [];
     const createdOrder = await prisma.$transaction(async (tx) => {
       // Create order record
+      // orderNumber is a unique column; 31^8 random values make collisions negligible
       const order = await tx.order.create({
         data: {
-          userId: data.userId,
-          total: data.total,
+          orderNumber: generateOrderNumber(),
+          userId,
+          contactEmail,
+          itemsPrice: totals.itemsPrice,
+          shippingPrice: totals.shippingPrice,
+          shippingService: shipping.service,
+          taxPrice: totals.taxPrice,
+          taxInclusive: tax.inclusive,
+          totalPrice: totals.totalPrice,
           status: "pending",
-          paymentMethod: data.paymentMethod ?? null,
-          shipping: data.shipping ?? null,
-          // If your schema has fields like tax, shippingPrice, etc. add them here
+          currency: storeCurrency(),
+          paymentMethod: data.paymentMethod,
+          shippingAddress: toJson(data.shippingAddress),
+          notes: data.notes ?? null,
+          metadata: toJson(data.metadata),
         },
       });
 
-      // Create related order items and optionally decrement product stock
-      for (const item of data.items) {
-        const prod = productsById.get(item.productId)!;
-        // Create orderItem; this assumes an OrderItem model with orderId, productId, quantity, price
+      // Take stock: a short line throws and rolls back the order too
+      lowStock = await reserveStock(tx, lines, { orderId: order.id, actorId: actor?.id ?? null });
+
+      // Create related order items
+      for (const line of lines) {
+        // Name and image are snapshotted so the order reads the same after catalog edits
         await tx.orderItem.create({
           data: {
             orderId: order.id,
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.price ?? prod.price ?? 0,
+            productId: line.productId,
+            variantId: line.variantId ?? null,
+            name: line.name,
+            image: productsById.get(line.productId)?.image ?? null,
+            sku: line.sku ?? null,
+            variant: toJson(line.variant),
+            quantity: line.quantity,
+            price: line.unitPrice,
           },
         });
-
-        // If product has stock tracked as a numeric field, decrement it
-        if (typeof prod.stock === "number") {
-          await tx.product.update({
-            where: { id: prod.id },
-            data: { stock: { decrement: item.quantity } as any }, // cast to any for Prisma-compatible update
-          });
-        }
       }
 
       // Return the created order with its items and user
       const fullOrder = await tx.order.findUnique({
         where: { id: order.id },
-        include: {
-          items: {
-            include: { product: true },
-          },
-          user: {
-            select: { id: true, name: true, email: true },
-          },
-        },
+        include: ORDER_INCLUDE,
       });
 
       return fullOrder;
     });
 
+    notifyLowStock(lowStock);
     return NextResponse.json({ success: true, data: createdOrder }, { status: 201 });
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Unknown error while creating order.";
-    // Validation errors should return 400
-    if (message && message.toLowerCase().includes("missing") || message.toLowerCase().includes("invalid")) {
-      return NextResponse.json({ success: false, error: message }, { status: 400 });
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof OrderValidationError) {
+      return NextResponse.json(
+        { success: false, error: err.message, fieldErrors: err.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (err instanceof InsufficientStockError || err instanceof ProductUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: err.message, code: err.code, items: err.items },
+        { status: err.status }
+      );
+    }
+    if (err instanceof CartError || err instanceof ShippingError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
     }
+    if (err instanceof PriceMismatchError) {
+      return NextResponse.json({ success: false, error: err.message, ...err.details }, { status: err.status });
+    }
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: "Request body must be valid JSON." }, { status: 400 });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while creating order.";
     return NextResponse.json({ success: false, error: message }, { status: 500 });
   }
 }
\ No newline at end of file
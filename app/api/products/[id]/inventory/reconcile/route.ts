@@ -0,0 +1,43 @@
+// app/api/products/[id]/inventory/reconcile/route.ts
+import { NextResponse } from "next/server";
+import { UserRole } from "../../../../../../types/user";
+import { authErrorResponse, requireAuth, requireRole } from "../../../../../../lib/authz";
+import { InventoryError, reconcileStock } from "../../../../../../lib/inventory";
+import { requireDatabaseStorage, StorageConfigError } from "../../../../../../lib/storage";
+
+/**
+ * Compare a product's stock with its inventory ledger (admins only).
+ *
+ *   POST /api/products/:id/inventory/reconcile -> { data: StockDrift[] }
+ *        body (optional): { fix: true } to reset drifted stock to the ledger balance;
+ *        stock recorded before the ledger existed is adopted as an opening balance.
+ *
+ * An empty list means stock and ledger agree.
+ */
+
+type RouteContext = { params: { id: string } };
+
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Stock movements");
+    const actor = await requireAuth(req);
+    requireRole(actor, UserRole.ADMIN);
+
+    const body = await req.json().catch(() => null);
+    const fix = body?.fix === true;
+
+    const drifts = await reconcileStock(params.id, { fix, actorId: actor.id });
+    return NextResponse.json({ data: drifts, fixed: fix }, { status: 200 });
+  } catch (err) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof StorageConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    if (err instanceof InventoryError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/products/[id]/inventory/reconcile error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
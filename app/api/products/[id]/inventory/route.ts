@@ -0,0 +1,116 @@
+// app/api/products/[id]/inventory/route.ts
+import { NextResponse } from "next/server";
+import type { AdjustStockInput } from "../../../../../types/product";
+import { assertCanManageProduct, authErrorResponse, requireAuth } from "../../../../../lib/authz";
+import { getProductStore } from "../../../../../lib/products";
+import {
+  adjustStock,
+  InsufficientStockError,
+  InventoryError,
+  listStockMovements,
+} from "../../../../../lib/inventory";
+import { requireDatabaseStorage, StorageConfigError } from "../../../../../lib/storage";
+
+/**
+ * Inventory ledger of a single product (see lib/inventory).
+ *
+ *   GET  /api/products/:id/inventory -> stock movements, newest first
+ *        query: variantId (one variant only), limit (default 100, max 500)
+ *   POST /api/products/:id/inventory -> record a manual stock change, 201 with the movement
+ *        body: { type: "adjustment" | "restock", quantity, variantId?, reason? }
+ *        quantity is signed for adjustments (e.g. -2 after a recount); restocks add units.
+ *
+ * Sellers may only view and adjust products they own (vendorId); admins any product.
+ */
+
+type RouteContext = { params: { id: string } };
+
+const MAX_LIMIT = 500;
+
+// GET: list stock movements
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Stock movements");
+    const actor = await requireAuth(req);
+
+    const product = await getProductStore().getById(params.id);
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    assertCanManageProduct(actor, product);
+
+    const url = new URL(req.url);
+    const variantId = url.searchParams.get("variantId") || undefined;
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(url.searchParams.get("limit") || "100", 10) || 100));
+
+    const movements = await listStockMovements(params.id, { variantId, limit });
+    return NextResponse.json({ data: movements }, { status: 200 });
+  } catch (err) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof StorageConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    console.error("GET /api/products/[id]/inventory error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST: manual adjustment or restock
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    requireDatabaseStorage("Stock movements");
+    const actor = await requireAuth(req);
+
+    const product = await getProductStore().getById(params.id);
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    assertCanManageProduct(actor, product);
+
+    const body = await req.json().catch(() => null);
+    const errors: string[] = [];
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ errors: ["Invalid JSON payload"] }, { status: 400 });
+    }
+    if (body.type !== "adjustment" && body.type !== "restock") {
+      errors.push("type must be 'adjustment' or 'restock'");
+    }
+    if (typeof body.quantity !== "number" || !Number.isInteger(body.quantity) || body.quantity === 0) {
+      errors.push("quantity must be a non-zero integer");
+    }
+    if (body.variantId !== undefined && typeof body.variantId !== "string") {
+      errors.push("variantId must be a string");
+    }
+    if (body.reason !== undefined && typeof body.reason !== "string") {
+      errors.push("reason must be a string");
+    }
+    if (errors.length > 0) {
+      return NextResponse.json({ errors }, { status: 400 });
+    }
+
+    const input: AdjustStockInput = {
+      productId: params.id,
+      variantId: body.variantId,
+      type: body.type,
+      quantity: body.quantity,
+      reason: body.reason?.trim() || undefined,
+    };
+    const movement = await adjustStock(input, actor.id);
+    return NextResponse.json({ data: movement }, { status: 201 });
+  } catch (err) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof StorageConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    if (err instanceof InsufficientStockError) {
+      return NextResponse.json({ error: err.message, code: err.code, items: err.items }, { status: err.status });
+    }
+    if (err instanceof InventoryError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/products/[id]/inventory error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
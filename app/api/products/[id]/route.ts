@@ -0,0 +1,111 @@
+// app/api/products/[id]/route.ts
+import { NextResponse } from "next/server";
+import type { Product } from "../../../../types/product";
+import { assertCanManageProduct, AuthError, authErrorResponse, isAdmin, requireAuth } from "../../../../lib/authz";
+import { getProductStore, ProductConflictError, validateProductPayload } from "../../../../lib/products";
+
+/**
+ * Single-product resource matching getProductById / updateProduct / deleteProduct in lib/api.
+ *
+ *   GET    /api/products/:id -> the product (public)
+ *   PUT    /api/products/:id -> partial update, same as PATCH (lib/api sends partial bodies)
+ *   PATCH  /api/products/:id -> partial update (409 if a sale moved its stock meanwhile)
+ *   DELETE /api/products/:id -> 204 No Content (409 once the product has been ordered)
+ *
+ * Sellers may only change or delete products they own (vendorId); admins may manage any
+ * product and are the only ones who can reassign vendorId.
+ */
+
+type RouteContext = { params: { id: string } };
+
+// GET: fetch a single product
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const product = await getProductStore().getById(params.id);
+    if (!product) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    return NextResponse.json(product, { status: 200 });
+  } catch (err) {
+    console.error("GET /api/products/[id] error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// PATCH: partially update a product
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const actor = await requireAuth(req);
+
+    const existing = await getProductStore().getById(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    assertCanManageProduct(actor, existing);
+
+    const body = await req.json().catch(() => null);
+    const validation = validateProductPayload(body, { partial: true });
+    if (!validation.valid) {
+      return NextResponse.json({ errors: validation.errors }, { status: 400 });
+    }
+
+    const updates: Partial<Product> = { ...validation.value };
+    if (updates.stock !== undefined && !updates.variants && (existing.variants?.length ?? 0) > 0) {
+      return NextResponse.json(
+        { errors: ["stock of a product sold in variants is the sum of its variants; update the variants instead"] },
+        { status: 400 }
+      );
+    }
+    if (body.vendorId !== undefined && body.vendorId !== existing.vendorId) {
+      if (!isAdmin(actor)) throw new AuthError("Only admins may reassign a product's vendor", 403);
+      updates.vendorId = body.vendorId;
+    }
+    if (typeof body.isActive === "boolean") {
+      updates.isActive = body.isActive;
+    }
+
+    const updated = await getProductStore().updateById(params.id, updates, actor.id);
+    if (!updated) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated, { status: 200 });
+  } catch (err) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof ProductConflictError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("PATCH /api/products/[id] error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export const PUT = PATCH;
+
+// DELETE: remove a product
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const actor = await requireAuth(req);
+
+    const existing = await getProductStore().getById(params.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Product not found" }, { status: 404 });
+    }
+    assertCanManageProduct(actor, existing);
+
+    await getProductStore().deleteById(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    // OrderItem rows reference the product (onDelete: Restrict in prisma/schema.prisma)
+    if ((err as { code?: string })?.code === "P2003") {
+      return NextResponse.json(
+        { error: "Product has been ordered and cannot be deleted; set isActive to false instead." },
+        { status: 409 }
+      );
+    }
+    console.error("DELETE /api/products/[id] error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// app/api/products/lookup/route.ts
+import { NextResponse } from "next/server";
+import { getProductStore } from "../../../../lib/products";
+
+/**
+ * Bulk product lookup, used to revalidate carts against the live catalog
+ * (lib/cartRevalidation).
+ *
+ *   POST /api/products/lookup -> { data: Product[], meta: { missing: string[] } }
+ *        body: { ids: string[] } (at most 100)
+ *
+ * Public, like GET /api/products/:id. Discontinued products (isActive: false) are
+ * returned as they are so carts can tell them apart from deleted ones, which are
+ * listed in meta.missing.
+ */
+
+const MAX_IDS = 100;
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const ids: unknown = body?.ids;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string" || id.trim() === "")) {
+      return NextResponse.json({ errors: ["ids must be an array of product ids"] }, { status: 400 });
+    }
+    const unique = Array.from(new Set(ids as string[]));
+    if (unique.length > MAX_IDS) {
+      return NextResponse.json({ errors: [`at most ${MAX_IDS} ids can be looked up at once`] }, { status: 400 });
+    }
+
+    const products = await getProductStore().getByIds(unique);
+    const found = new Set(products.map((p) => p.id));
+    return NextResponse.json(
+      { data: products, meta: { missing: unique.filter((id) => !found.has(id)) } },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("POST /api/products/lookup error:", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
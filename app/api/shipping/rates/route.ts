@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { CartError } from "../../../../lib/cart";
+import { loadPricedCart, ProductUnavailableError } from "../../../../lib/checkout";
+import { quoteShippingRates, ShippingError } from "../../../../lib/shipping";
+
+/**
+ * API route: /api/shipping/rates
+ * Methods:
+ *  - POST: Shipping services available for a cart shipped to an address
+ *          body: { items: { productId, variantId?, quantity }[],
+ *                  shippingAddress: { country, state?, postalCode? } }
+ *
+ * Rates come from lib/shipping (zones, billable weight tiers, free-shipping
+ * thresholds). The cart is loaded and priced by lib/checkout like POST /api/orders,
+ * which charges the `shippingService` the shopper picks at the same price. Public.
+ * Responds with
+ *   { success: true, data: { rates: ShippingRate[] } }   (cheapest first)
+ * or 422 when the address cannot be shipped to, 409 with `code` and `items` for
+ * discontinued products.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const address = body?.shippingAddress;
+    if (!address || typeof address !== "object" || typeof address.country !== "string" || !address.country.trim()) {
+      return NextResponse.json({ success: false, error: "'shippingAddress.country' is required." }, { status: 400 });
+    }
+
+    const cart = await loadPricedCart(body);
+    const rates = quoteShippingRates({
+      lines: cart.shippingLines,
+      itemsPrice: cart.itemsPrice,
+      address: {
+        country: address.country,
+        state: typeof address.state === "string" ? address.state : undefined,
+        postalCode: typeof address.postalCode === "string" ? address.postalCode : undefined,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: { rates } }, { status: 200 });
+  } catch (err: unknown) {
+    if (err instanceof ProductUnavailableError) {
+      return NextResponse.json({ success: false, error: err.message, code: err.code, items: err.items }, { status: err.status });
+    }
+    if (err instanceof CartError || err instanceof ShippingError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while quoting shipping.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { CartError } from "../../../../lib/cart";
+import { loadPricedCart, ProductUnavailableError } from "../../../../lib/checkout";
+import { orderTotals } from "../../../../lib/pricing";
+import { isShippingServiceLevel, quoteShippingRate, ShippingError } from "../../../../lib/shipping";
+import { calculateTax, TaxError, type TaxEstimate } from "../../../../lib/tax";
+
+/**
+ * API route: /api/tax/estimate
+ * Methods:
+ *  - POST: Totals with tax for a cart shipped to an address
+ *          body: { items: { productId, variantId?, quantity }[],
+ *                  shippingAddress: { country, state?, postalCode? },
+ *                  shippingService?: "standard" | "express" (default "standard") }
+ *
+ * The cart is loaded and priced by lib/checkout, shipping by lib/shipping and tax by
+ * lib/tax exactly as POST /api/orders will, so sending the returned totalPrice with
+ * the order passes its total check.
+ * Public (guests see tax before checking out). Responds with
+ *   { success: true, data: TaxEstimate }
+ * or 409 with `code` and `items` for discontinued products.
+ */
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const address = body?.shippingAddress;
+    if (!address || typeof address !== "object" || typeof address.country !== "string") {
+      return NextResponse.json({ success: false, error: "'shippingAddress.country' is required." }, { status: 400 });
+    }
+    const service = body.shippingService ?? "standard";
+    if (!isShippingServiceLevel(service)) {
+      return NextResponse.json({ success: false, error: "'shippingService' must be 'standard' or 'express'." }, { status: 400 });
+    }
+    const destination = {
+      country: address.country,
+      state: typeof address.state === "string" ? address.state : undefined,
+      postalCode: typeof address.postalCode === "string" ? address.postalCode : undefined,
+    };
+
+    const cart = await loadPricedCart(body);
+    const { shippingPrice } = quoteShippingRate(service, {
+      lines: cart.shippingLines,
+      itemsPrice: cart.itemsPrice,
+      address: destination,
+    });
+    const tax = calculateTax({ lines: cart.taxLines, shippingPrice, address: destination });
+
+    const data: TaxEstimate = { ...tax, ...orderTotals(cart.lines, shippingPrice, tax.taxPrice, tax.inclusive) };
+    return NextResponse.json({ success: true, data }, { status: 200 });
+  } catch (err: unknown) {
+    if (err instanceof ProductUnavailableError) {
+      return NextResponse.json({ success: false, error: err.message, code: err.code, items: err.items }, { status: err.status });
+    }
+    if (err instanceof CartError || err instanceof TaxError || err instanceof ShippingError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : "Unknown error while estimating tax.";
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import {
+  buildUserUpdate,
+  getUserStore,
+  sanitizeUser,
+  touchesAdminOnlyFields,
+  UserUpdateError,
+  type UserUpdateBody,
+} from '../../../../lib/users';
+import { assertCanAccessUser, AuthError, authErrorResponse, isAdmin, requireAuth } from '../../../../lib/authz';
+
+/**
+ * app/api/users/[id]/route.ts
+ * Single-user resource matching getUserById / updateUser / deleteUser in lib/api.
+ *
+ *   GET    /api/users/:id -> the user (password and tokens stripped)
+ *   PUT    /api/users/:id -> partial update, same as PATCH (lib/api sends partial bodies)
+ *   PATCH  /api/users/:id -> partial update
+ *   DELETE /api/users/:id -> 204 No Content
+ *
+ * Users may act on their own record; admins on anyone's. Only admins may change
+ * role, status or emailVerified. Changing your own password requires `currentPassword`
+ * (admins can reset other users' passwords without it); changing the email marks it
+ * unverified again. The cart is managed at /api/cart.
+ */
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const store = getUserStore();
+    const actor = await requireAuth(request);
+    assertCanAccessUser(actor, params.id);
+
+    const user = await store.getById(params.id);
+    if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    return NextResponse.json(sanitizeUser(user));
+  } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    console.error('GET /api/users/[id] error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const store = getUserStore();
+    const actor = await requireAuth(request);
+    assertCanAccessUser(actor, params.id);
+
+    const updates = (await request.json().catch(() => null)) as UserUpdateBody | null;
+    if (!updates || typeof updates !== 'object') {
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+    if (!isAdmin(actor) && touchesAdminOnlyFields(updates)) {
+      throw new AuthError('Only admins may change role or account status', 403);
+    }
+
+    const existing = await store.getById(params.id);
+    if (!existing) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+    const payload = await buildUserUpdate(existing, updates, actor);
+    if (payload.email && payload.email !== existing.email) {
+      const owner = await store.getByEmail(payload.email);
+      if (owner && owner.id !== existing.id) {
+        return NextResponse.json({ error: 'Email already in use' }, { status: 409 });
+      }
+    }
+
+    const updated = await store.updateById(existing.id, payload);
+    return NextResponse.json(sanitizeUser(updated));
+  } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof UserUpdateError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('PATCH /api/users/[id] error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
+
+export const PUT = PATCH;
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const store = getUserStore();
+    const actor = await requireAuth(request);
+    assertCanAccessUser(actor, params.id);
+
+    const deleted = await store.deleteById(params.id);
+    if (!deleted) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    return new NextResponse(null, { status: 204 });
+  } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    console.error('DELETE /api/users/[id] error', err);
+    return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
+  }
+}
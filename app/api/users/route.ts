@@ -1,8 +1,28 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import * as dbModule from '../../../lib/db';
+import { UserRole, UserStatus } from '../../../types/user';
 import type { User } from '../../../types/user';
-import crypto from 'crypto';
+import {
+  buildUserUpdate,
+  getUserStore,
+  normalizeEmail,
+  sanitizeUser,
+  touchesAdminOnlyFields,
+  UserUpdateError,
+  type NewUser,
+  type UserUpdateBody,
+} from '../../../lib/users';
+import { hashPassword } from '../../../lib/password';
+import { sendVerificationEmail } from '../../../lib/emailVerification';
+import {
+  assertCanAccessUser,
+  AuthError,
+  authErrorResponse,
+  getAuthUser,
+  isAdmin,
+  requireAuth,
+  requireRole,
+} from '../../../lib/authz';
 
 /**
  * app/api/users/route.ts
@@ -14,185 +34,51 @@ import crypto from 'crypto';
  *   PUT  -> update user by id or email
  *   DELETE -> delete user by id or email
  *
- * The implementation tries to use the project's lib/db exports (prisma, default or helpers).
- * If unavailable, it falls back to an in-memory store (suitable for development).
- */
-
-/* ----------------------------- Utilities ------------------------------ */
-
-/**
- * Hash a password using SHA-256.
- * Using Node's crypto to avoid external dependencies (bcrypt) in this file.
- */
-function hashPassword(password: string) {
-  return crypto.createHash('sha256').update(password).digest('hex');
-}
-
-/**
- * Remove sensitive fields before returning user objects in responses.
- */
-function sanitizeUser(user: any): Partial<User> {
-  if (!user) return user;
-  const { password, ...rest } = user;
-  return rest;
-}
-
-/* ------------------------ Flexible DB Adapters ------------------------ */
-
-/**
- * In-memory fallback store. Persists only for the lifetime of the Node.js process.
- * Useful when lib/db doesn't expose a usable API in this environment.
+ * Storage is provided by lib/users, using the store configured by DATA_STORE
+ * (database, JSON file or memory; see lib/storage).
+ *
+ * Authorization (lib/authz):
+ * - listing users is admin-only
+ * - reading, updating and deleting a user requires being that user or an admin
+ * - only admins may assign roles or change account status
+ *
+ * The same operations are available as /api/users/[id]; the id/email query
+ * parameters here are kept for existing callers.
  */
-const memoryStore = (() => {
-  const map = new Map<string, any>();
-  return {
-    async getAll() {
-      return Array.from(map.values());
-    },
-    async getById(id: string) {
-      return map.get(id) ?? null;
-    },
-    async getByEmail(email: string) {
-      for (const v of map.values()) {
-        if (v.email === email) return v;
-      }
-      return null;
-    },
-    async create(data: any) {
-      const id = data.id ?? crypto.randomUUID();
-      const now = new Date().toISOString();
-      const record = { id, ...data, createdAt: now, updatedAt: now };
-      map.set(id, record);
-      return record;
-    },
-    async updateById(id: string, updates: any) {
-      const existing = map.get(id);
-      if (!existing) return null;
-      const updated = { ...existing, ...updates, updatedAt: new Date().toISOString() };
-      map.set(id, updated);
-      return updated;
-    },
-    async deleteById(id: string) {
-      const existed = map.get(id);
-      if (!existed) return null;
-      map.delete(id);
-      return existed;
-    },
-  };
-})();
-
-/**
- * Tries to detect a usable DB interface in lib/db.
- * Supports:
- * - prisma client (dbModule.prisma) with prisma.user methods
- * - default exported helpers with getUser(s)/createUser/updateUser/deleteUser
- * - fallback to memoryStore
- */
-function getDbAdapter() {
-  // If prisma is exported
-  if ((dbModule as any).prisma) {
-    const prisma = (dbModule as any).prisma;
-    return {
-      async getAll() {
-        return prisma.user.findMany();
-      },
-      async getById(id: string) {
-        return prisma.user.findUnique({ where: { id } });
-      },
-      async getByEmail(email: string) {
-        return prisma.user.findUnique({ where: { email } });
-      },
-      async create(data: any) {
-        return prisma.user.create({ data });
-      },
-      async updateById(id: string, updates: any) {
-        return prisma.user.update({ where: { id }, data: updates });
-      },
-      async deleteById(id: string) {
-        return prisma.user.delete({ where: { id } });
-      },
-    };
-  }
-
-  // If module default export contains named helpers
-  const def = (dbModule as any).default ?? dbModule;
-  if (def) {
-    // common helper names
-    if (typeof def.getUsers === 'function' || typeof def.getUser === 'function') {
-      return {
-        async getAll() {
-          if (typeof def.getUsers === 'function') return def.getUsers();
-          if (typeof def.getAllUsers === 'function') return def.getAllUsers();
-          return [];
-        },
-        async getById(id: string) {
-          if (typeof def.getUserById === 'function') return def.getUserById(id);
-          if (typeof def.getUser === 'function') return def.getUser({ id });
-          return null;
-        },
-        async getByEmail(email: string) {
-          if (typeof def.getUserByEmail === 'function') return def.getUserByEmail(email);
-          if (typeof def.getUser === 'function') return def.getUser({ email });
-          return null;
-        },
-        async create(data: any) {
-          if (typeof def.createUser === 'function') return def.createUser(data);
-          if (typeof def.insertUser === 'function') return def.insertUser(data);
-          if (typeof def.create === 'function') return def.create('users', data);
-          throw new Error('No create user function found on db module');
-        },
-        async updateById(id: string, updates: any) {
-          if (typeof def.updateUser === 'function') return def.updateUser(id, updates);
-          if (typeof def.update === 'function') return def.update('users', id, updates);
-          throw new Error('No update user function found on db module');
-        },
-        async deleteById(id: string) {
-          if (typeof def.deleteUser === 'function') return def.deleteUser(id);
-          if (typeof def.delete === 'function') return def.delete('users', id);
-          throw new Error('No delete user function found on db module');
-        },
-      };
-    }
-  }
-
-  // Fallback
-  return memoryStore;
-}
 
 /* ------------------------------ Handlers ----------------------------- */
 
-const adapter = getDbAdapter();
-
 /**
  * GET handler
- * - GET /api/users -> returns all users (password stripped)
+ * - GET /api/users -> returns all users (password stripped), admin only
  * - GET /api/users?id=... -> returns user by id
  * - GET /api/users?email=... -> returns user by email
  */
 export async function GET(request: Request) {
   try {
+    const store = getUserStore();
+    const actor = await requireAuth(request);
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
     const email = url.searchParams.get('email');
 
     let result: any;
 
-    if (id) {
-      result = await adapter.getById(id);
-      if (!result) return NextResponse.json({ error: 'User not found' }, { status: 404 });
-      return NextResponse.json(sanitizeUser(result));
-    }
-
-    if (email) {
-      result = await adapter.getByEmail(email);
+    if (id || email) {
+      result = id ? await store.getById(id) : await store.getByEmail(normalizeEmail(email!));
+      // Non-admins get 403 for any record but their own, whether or not it exists
+      assertCanAccessUser(actor, result?.id ?? id);
       if (!result) return NextResponse.json({ error: 'User not found' }, { status: 404 });
       return NextResponse.json(sanitizeUser(result));
     }
 
-    const users = await adapter.getAll();
+    requireRole(actor, UserRole.ADMIN);
+    const users = await store.getAll();
     const sanitized = Array.isArray(users) ? users.map(sanitizeUser) : [];
     return NextResponse.json(sanitized);
   } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
     console.error('GET /api/users error', err);
     return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
   }
@@ -200,33 +86,55 @@ export async function GET(request: Request) {
 
 /**
  * POST handler - create a new user
- * Expected JSON body: { name?: string, email: string, password: string, role?: string }
+ * Expected JSON body: { firstName?: string, lastName?: string, email: string, password: string, role?: string }
+ * New users start as pending and are sent an email verification link.
+ * Anyone may sign up as a customer; only admins may create sellers or admins.
  */
 export async function POST(request: Request) {
   try {
+    const store = getUserStore();
+    const actor = await getAuthUser(request);
     const body = (await request.json()) as Partial<User> & { password?: string };
     if (!body || !body.email || !body.password) {
       return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
     }
 
+    const role = (body as any).role ?? UserRole.CUSTOMER;
+    if (!Object.values(UserRole).includes(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+    if (role !== UserRole.CUSTOMER && !isAdmin(actor)) {
+      throw new AuthError('Only admins may assign roles', 403);
+    }
+
     // Prevent duplicate emails
-    const existing = await adapter.getByEmail(body.email);
+    const existing = await store.getByEmail(normalizeEmail(body.email));
     if (existing) {
       return NextResponse.json({ error: 'Email already in use' }, { status: 409 });
     }
 
-    const toCreate: any = {
-      name: body.name ?? null,
-      email: body.email,
-      password: hashPassword(body.password),
-      role: (body as any).role ?? 'user',
+    const toCreate: NewUser = {
+      firstName: body.firstName,
+      lastName: body.lastName,
+      email: normalizeEmail(body.email),
+      password: await hashPassword(body.password),
+      role,
+      status: UserStatus.PENDING,
+      emailVerified: false,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
-    const created = await adapter.create(toCreate);
+    let created = await store.create(toCreate);
+    try {
+      created = await sendVerificationEmail(created, store);
+    } catch (mailErr) {
+      console.error('POST /api/users verification email error', mailErr);
+    }
     return NextResponse.json(sanitizeUser(created), { status: 201 });
   } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
     console.error('POST /api/users error', err);
     return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
   }
@@ -236,9 +144,12 @@ export async function POST(request: Request) {
  * PUT handler - update an existing user
  * Query params: id or email required to identify the user.
  * Body: partial fields to update e.g. { name?: string, email?: string, password?: string, role?: string }
+ * Users changing their own password also send { currentPassword } (see buildUserUpdate in lib/users).
  */
 export async function PUT(request: Request) {
   try {
+    const store = getUserStore();
+    const actor = await requireAuth(request);
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
     const email = url.searchParams.get('email');
@@ -247,17 +158,20 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'id or email query parameter is required' }, { status: 400 });
     }
 
-    const updates = (await request.json()) as Partial<User> & { password?: string };
+    const updates = (await request.json()) as UserUpdateBody;
 
     // Find existing user
-    const existing = id ? await adapter.getById(id) : await adapter.getByEmail(email!);
+    const existing = id ? await store.getById(id) : await store.getByEmail(normalizeEmail(email!));
+    assertCanAccessUser(actor, existing?.id ?? id);
     if (!existing) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const updatePayload: any = { ...updates };
-    if (updates.password) updatePayload.password = hashPassword(updates.password);
-    updatePayload.updatedAt = new Date().toISOString();
+    if (!isAdmin(actor) && touchesAdminOnlyFields(updates)) {
+      throw new AuthError('Only admins may change role or account status', 403);
+    }
+
+    const updatePayload = await buildUserUpdate(existing, updates, actor);
 
     // Prefer updateById using the resolved id
     const targetId = existing.id ?? id;
@@ -265,9 +179,14 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'Unable to determine user id' }, { status: 500 });
     }
 
-    const updated = await adapter.updateById(targetId, updatePayload);
+    const updated = await store.updateById(targetId, updatePayload);
     return NextResponse.json(sanitizeUser(updated));
   } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
+    if (err instanceof UserUpdateError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error('PUT /api/users error', err);
     return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
   }
@@ -279,6 +198,8 @@ export async function PUT(request: Request) {
  */
 export async function DELETE(request: Request) {
   try {
+    const store = getUserStore();
+    const actor = await requireAuth(request);
     const url = new URL(request.url);
     const id = url.searchParams.get('id');
     const email = url.searchParams.get('email');
@@ -287,7 +208,8 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'id or email query parameter is required' }, { status: 400 });
     }
 
-    const existing = id ? await adapter.getById(id) : await adapter.getByEmail(email!);
+    const existing = id ? await store.getById(id) : await store.getByEmail(normalizeEmail(email!));
+    assertCanAccessUser(actor, existing?.id ?? id);
     if (!existing) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
@@ -297,9 +219,11 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'Unable to determine user id' }, { status: 500 });
     }
 
-    const deleted = await adapter.deleteById(targetId);
+    const deleted = await store.deleteById(targetId);
     return NextResponse.json({ success: true, user: sanitizeUser(deleted) });
   } catch (err: any) {
+    const denied = authErrorResponse(err);
+    if (denied) return denied;
     console.error('DELETE /api/users error', err);
     return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
   }
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { applyPaymentEvent } from "../../../../lib/orders";
+import { getPaymentProvider, listPaymentProviders, parseWebhookEvent, PaymentError } from "../../../../lib/payments";
+import {
+  claimWebhookEvent,
+  completeWebhookEvent,
+  releaseWebhookEvent,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookError,
+} from "../../../../lib/webhooks";
+import { requireDatabaseStorage } from "../../../../lib/storage";
+
+/**
+ * API route: /api/webhooks/[provider]
+ * Methods:
+ *  - POST: Receive an asynchronous payment event from a provider (see lib/payments)
+ *
+ * 1. The raw body must carry a valid `x-webhook-signature` header (lib/webhooks).
+ * 2. The provider translates the body into a PaymentWebhookEvent.
+ * 3. The event id is recorded once per provider; redeliveries are acknowledged with
+ *    { received: true, duplicate: true } and not applied again.
+ * 4. The event is applied to its order (lib/orders applyPaymentEvent).
+ *
+ * Responds 200 { received: true, outcome } once handled. Events that arrive before
+ * the event they depend on get 409 and are not recorded, so the provider retries them.
+ */
+
+type RouteContext = { params: { provider: string } };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const providerName = params.provider.toLowerCase();
+  if (!listPaymentProviders().includes(providerName)) {
+    return NextResponse.json({ error: `Unknown payment provider '${providerName}'.` }, { status: 404 });
+  }
+  let claimedEventId: string | null = null;
+
+  try {
+    requireDatabaseStorage("Payments");
+    const provider = getPaymentProvider(providerName);
+
+    // Verify against the exact bytes received; re-serialized JSON would not match
+    const rawBody = await request.text();
+    verifyWebhookSignature(provider.name, rawBody, request.headers.get(WEBHOOK_SIGNATURE_HEADER));
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      throw new WebhookError("Webhook body must be valid JSON.", 400);
+    }
+    const event = provider.parseWebhookEvent ? provider.parseWebhookEvent(payload) : parseWebhookEvent(payload);
+
+    if (!(await claimWebhookEvent(provider.name, event.id, event.type))) {
+      return NextResponse.json({ received: true, duplicate: true }, { status: 200 });
+    }
+    claimedEventId = event.id;
+
+    const outcome = await applyPaymentEvent(provider.name, event);
+    if (outcome === "deferred") {
+      await releaseWebhookEvent(provider.name, event.id);
+      return NextResponse.json(
+        { received: false, outcome, error: "Event arrived out of order; retry later." },
+        { status: 409 }
+      );
+    }
+
+    await completeWebhookEvent(provider.name, event.id, outcome);
+    return NextResponse.json({ received: true, outcome }, { status: 200 });
+  } catch (err: unknown) {
+    // Let the provider's retry process the event again
+    if (claimedEventId) {
+      await releaseWebhookEvent(providerName, claimedEventId).catch((releaseErr) =>
+        console.error(`POST /api/webhooks/${providerName}: failed to release event`, releaseErr)
+      );
+    }
+    if (err instanceof WebhookError || err instanceof PaymentError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error(`POST /api/webhooks/${providerName} error`, err);
+    const message = err instanceof Error ? err.message : "Unknown error while processing webhook.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
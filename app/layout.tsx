@@ -1,6 +1,7 @@
 import React from "react";
 import type { Metadata } from "next";
 import Link from "next/link";
+import CartProvider from "../components/CartProvider";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -152,7 +153,8 @@ export default function RootLayout({ children }: RootLayoutProps) {
         {/* Main content */}
         <main id="main" className="flex-1 w-full">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-            {children}
+            {/* One cart for every page (client component; see components/CartProvider) */}
+            <CartProvider>{children}</CartProvider>
           </div>
         </main>
 
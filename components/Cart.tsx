@@ -1,22 +1,56 @@
 // components/Cart.tsx
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import Image from "next/image";
-import type { Product } from "../types/product";
+import type { CreateOrderInput, ShippingAddress } from "../types/order";
 import { useRouter } from "next/navigation";
-
-interface CartItem extends Product {
-  quantity: number;
-}
+import { resolveUnitPrice } from "../lib/pricing";
+import { variantLabel } from "../lib/variants";
+import { cartIssueId, type CartLineIssue } from "../lib/cartRevalidation";
+import api from "../lib/api";
+import type { TaxEstimate } from "../lib/tax";
+import type { ShippingRate, ShippingServiceLevel } from "../lib/shipping";
+import { cartEntryKey, useCart, type CartEntry } from "./CartProvider";
 
 interface CartProps {
-  initialItems?: CartItem[];
   onCheckoutSuccess?: (order: any) => void;
   className?: string;
 }
 
-const STORAGE_KEY = "cart_v1";
+type CheckoutStep = "cart" | "address" | "payment";
+
+const PAYMENT_METHODS: { value: string; label: string }[] = [
+  { value: "card", label: "Credit / debit card" },
+  { value: "paypal", label: "PayPal" },
+  { value: "cash", label: "Cash on delivery" },
+];
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  fullName: "",
+  address1: "",
+  address2: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  country: "US",
+  phone: "",
+};
+
+const REQUIRED_ADDRESS_FIELDS: (keyof ShippingAddress)[] = ["fullName", "address1", "city", "postalCode", "country"];
+
+const ADDRESS_FIELDS: { key: keyof ShippingAddress; label: string; autoComplete: string }[] = [
+  { key: "fullName", label: "Full name", autoComplete: "name" },
+  { key: "address1", label: "Address", autoComplete: "address-line1" },
+  { key: "address2", label: "Apartment, suite, etc. (optional)", autoComplete: "address-line2" },
+  { key: "city", label: "City", autoComplete: "address-level2" },
+  { key: "state", label: "State / region (optional)", autoComplete: "address-level1" },
+  { key: "postalCode", label: "Postal code", autoComplete: "postal-code" },
+  { key: "country", label: "Country", autoComplete: "country" },
+  { key: "phone", label: "Phone (optional)", autoComplete: "tel" },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 /**
  * Utility to format numbers as currency.
@@ -25,95 +59,219 @@ const formatCurrency = (value: number, locale = "en-US", currency = "USD") =>
   new Intl.NumberFormat(locale, { style: "currency", currency }).format(value);
 
 /**
- * Helper to get numeric price from product which may have price as number or object
+ * Helper to get the unit price of a cart line, priced the same way as the server
+ * (lib/pricing): the variant's price when set, and a sale price over the list price
  */
-function getPriceValue(p: Product | CartItem): number {
-  const pr = (p as any).price;
-  if (pr === undefined || pr === null) return 0;
-  if (typeof pr === "number") return pr;
-  if (typeof pr === "object" && typeof pr.value === "number") return pr.value;
-  return 0;
+function getPriceValue(item: CartEntry): number {
+  return resolveUnitPrice(item, item.variant);
 }
 
+/** Round to cents so the totals we send match the server's arithmetic */
+const roundToTwo = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/** Per-line notice for something that changed in the catalog (lib/cartRevalidation) */
+function issueText(issue: CartLineIssue): string {
+  switch (issue.type) {
+    case "price_changed":
+      return `The price changed from ${formatCurrency(issue.previousPrice ?? 0)} to ${formatCurrency(issue.currentPrice ?? 0)}.`;
+    case "insufficient_stock":
+      return `Only ${issue.available} left in stock; the quantity will be reduced to ${issue.available}.`;
+    default:
+      return "No longer available; it will be removed from your cart.";
+  }
+}
+
+const REVIEW_CHANGES = { type: "error" as const, text: "Some items in your cart have changed. Please review them before checking out." };
+
 /**
  * Shopping Cart component
  *
- * - Persists cart to localStorage
+ * - Shows the shared cart (CartProvider): stored in the browser for guests and on the
+ *   server for signed-in users
  * - Allows changing quantities, removing items, clearing cart
- * - Performs checkout via POST /api/orders
+ * - Flags lines whose price, stock or availability changed since they were added; the
+ *   shopper acknowledges each notice before checkout can continue
+ * - Shipping services and prices come from POST /api/shipping/rates (lib/shipping) and
+ *   tax from POST /api/tax/estimate (lib/tax), the same calculations the order is
+ *   stored with
+ * - Performs checkout via POST /api/orders in three steps: review cart, shipping
+ *   address, payment method. Signed-in users order on their account; guests give a
+ *   contact email. Server validation errors are shown next to the matching field.
  */
-export default function Cart({ initialItems = [], onCheckoutSuccess, className = "" }: CartProps) {
-  const [items, setItems] = useState<CartItem[]>([]);
+export default function Cart({ onCheckoutSuccess, className = "" }: CartProps) {
+  const { items, session, notice, clearNotice, issues, revalidate, acknowledgeIssue, updateQuantity, removeItem, clear } =
+    useCart();
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [step, setStep] = useState<CheckoutStep>("cart");
+  const [address, setAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [paymentMethod, setPaymentMethod] = useState<string>(PAYMENT_METHODS[0].value);
+  const [guestEmail, setGuestEmail] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [estimate, setEstimate] = useState<TaxEstimate | null>(null);
+  const [rates, setRates] = useState<ShippingRate[]>([]);
+  const [shippingService, setShippingService] = useState<ShippingServiceLevel>("standard");
   const router = useRouter();
 
-  // Load from localStorage on mount (or use initialItems if provided)
+  // Messages from this cart's own actions win over the shared cart's sync notices
+  const shownMessage = message ?? notice;
+
+  const clearCart = async () => {
+    await clear();
+    setStep("cart");
+    setMessage({ type: "success", text: "Cart cleared." });
+  };
+
+  const subtotal = roundToTwo(items.reduce((acc, it) => acc + getPriceValue(it) * it.quantity, 0));
+
+  const cartLines = useMemo(
+    () => items.map((it) => ({ productId: it.id, variantId: it.variantId, quantity: it.quantity })),
+    [items]
+  );
+  const destination = useMemo(
+    () => ({ country: address.country.trim(), state: address.state?.trim(), postalCode: address.postalCode.trim() }),
+    [address.country, address.state, address.postalCode]
+  );
+
+  // Shipping services for the cart and address (debounced while typing)
   useEffect(() => {
-    try {
-      const raw = typeof window !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null;
-      if (raw) {
-        const parsed: CartItem[] = JSON.parse(raw);
-        setItems(parsed);
-      } else if (initialItems.length) {
-        setItems(initialItems);
-      }
-    } catch (err) {
-      // If localStorage parse fails, fallback to initialItems or empty
-      setItems(initialItems);
+    if (cartLines.length === 0 || !destination.country) {
+      setRates([]);
+      return;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // Persist items to localStorage whenever they change
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api
+        .getShippingRates({ items: cartLines, shippingAddress: destination })
+        .then((res) => {
+          if (!cancelled) setRates(res.data.rates);
+        })
+        .catch((err) => {
+          console.error("Failed to load shipping rates", err);
+          if (!cancelled) setRates([]);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cartLines, destination]);
+
+  // Fall back to the cheapest service when the chosen one is not offered
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
-    } catch (err) {
-      // ignore
+    if (rates.length > 0 && !rates.some((r) => r.service === shippingService)) {
+      setShippingService(rates[0].service);
     }
-  }, [items]);
+  }, [rates, shippingService]);
 
-  const saveAndNotify = (nextItems: CartItem[]) => {
-    setItems(nextItems);
-    setMessage(null);
-  };
+  const estimateInput = useMemo(
+    () => ({ items: cartLines, shippingAddress: destination, shippingService }),
+    [cartLines, destination, shippingService]
+  );
 
-  const addItem = (product: Product, qty = 1) => {
-    setItems((prev) => {
-      const foundIndex = prev.findIndex((p) => p.id === product.id);
-      if (foundIndex !== -1) {
-        const next = [...prev];
-        next[foundIndex] = { ...next[foundIndex], quantity: next[foundIndex].quantity + qty };
-        return next;
-      }
-      return [...prev, { ...product, quantity: qty }];
+  // Re-estimate tax as the cart and address change (debounced while typing)
+  useEffect(() => {
+    if (estimateInput.items.length === 0 || !estimateInput.shippingAddress.country) {
+      setEstimate(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api
+        .estimateTax(estimateInput)
+        .then((res) => {
+          if (!cancelled) setEstimate(res.data);
+        })
+        .catch((err) => {
+          console.error("Failed to estimate tax", err);
+          if (!cancelled) setEstimate(null);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [estimateInput]);
+
+  const selectedRate = rates.find((r) => r.service === shippingService);
+  const shipping = estimate?.shippingPrice ?? selectedRate?.shippingPrice ?? 0;
+  // Inclusive tax (VAT) is already part of the prices
+  const tax = estimate?.taxPrice ?? 0;
+  const total = estimate ? estimate.totalPrice : roundToTwo(subtotal + shipping);
+
+  const updateAddress = (key: keyof ShippingAddress, value: string) => {
+    setAddress((prev) => ({ ...prev, [key]: value }));
+    setFieldErrors((prev) => {
+      const { [`shippingAddress.${key}`]: _removed, ...rest } = prev;
+      return rest;
     });
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
-    setItems((prev) => {
-      if (quantity <= 0) {
-        return prev.filter((p) => p.id !== productId);
-      }
-      return prev.map((p) => (p.id === productId ? { ...p, quantity } : p));
-    });
+  const startCheckout = async () => {
+    if (items.length === 0) {
+      setMessage({ type: "error", text: "Your cart is empty." });
+      return;
+    }
+    setIsLoading(true);
+    const outstanding = await revalidate();
+    setIsLoading(false);
+    if (outstanding.length > 0) {
+      setMessage(REVIEW_CHANGES);
+      return;
+    }
+    // Prefill the recipient from the signed-in profile
+    if (session && !address.fullName) {
+      const name = [session.user.firstName, session.user.lastName].filter(Boolean).join(" ");
+      if (name) setAddress((prev) => ({ ...prev, fullName: name }));
+    }
+    setMessage(null);
+    setStep("address");
   };
 
-  const removeItem = (productId: string) => {
-    setItems((prev) => prev.filter((p) => p.id !== productId));
+  // Client-side check of the address step; the server re-validates everything
+  const continueToPayment = () => {
+    const errors: Record<string, string> = {};
+    for (const key of REQUIRED_ADDRESS_FIELDS) {
+      if (!String(address[key] ?? "").trim()) errors[`shippingAddress.${key}`] = "This field is required.";
+    }
+    if (!session && !EMAIL_PATTERN.test(guestEmail.trim())) {
+      errors.contactEmail = "Enter a valid email address.";
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) setStep("payment");
   };
 
-  const clearCart = () => {
-    setItems([]);
-    setMessage({ type: "success", text: "Cart cleared." });
-  };
+  const buildOrderPayload = (quote: TaxEstimate): CreateOrderInput => {
+    const trimmed = Object.fromEntries(
+      Object.entries(address).map(([k, v]) => [k, typeof v === "string" ? v.trim() : v])
+    ) as ShippingAddress;
+    // drop empty optional fields
+    (Object.keys(trimmed) as (keyof ShippingAddress)[]).forEach((k) => {
+      if (trimmed[k] === "") delete trimmed[k];
+    });
 
-  const subtotal = items.reduce((acc, it) => acc + getPriceValue(it) * it.quantity, 0);
-  const taxRate = 0.08; // example tax
-  const tax = subtotal * taxRate;
-  const shipping = items.length > 0 ? 4.99 : 0;
-  const total = subtotal + tax + shipping;
+    return {
+      userId: session?.user.id,
+      items: items.map((i) => ({
+        productId: i.id,
+        variantId: i.variantId,
+        name: i.name,
+        image: i.image ?? i.images?.[0]?.url,
+        price: getPriceValue(i),
+        quantity: i.quantity,
+        sku: i.variant?.sku ?? i.sku,
+      })),
+      shippingAddress: trimmed,
+      paymentMethod,
+      shippingService,
+      itemsPrice: quote.itemsPrice,
+      shippingPrice: quote.shippingPrice,
+      taxPrice: quote.taxPrice,
+      totalPrice: quote.totalPrice,
+      contactEmail: session ? undefined : guestEmail.trim(),
+      metadata: { source: "cart" },
+    };
+  };
 
   const handleCheckout = async () => {
     if (items.length === 0) {
@@ -123,47 +281,68 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
 
     setIsLoading(true);
     setMessage(null);
+    setFieldErrors({});
+
+    // Prices or stock may have changed while the address and payment were entered
+    if ((await revalidate()).length > 0) {
+      setStep("cart");
+      setMessage(REVIEW_CHANGES);
+      setIsLoading(false);
+      return;
+    }
 
     try {
-      const payload = {
-        items: items.map((i) => ({
-          productId: i.id,
-          name: i.name,
-          price: getPriceValue(i),
-          quantity: i.quantity,
-        })),
-        meta: {
-          subtotal,
-          tax,
-          shipping,
-          total,
-        },
-      };
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session) headers.Authorization = `Bearer ${session.tokens.accessToken}`;
+
+      // Tax for the final address, exactly as the order will be taxed
+      const quote = (await api.estimateTax(estimateInput)).data;
+      setEstimate(quote);
 
       const res = await fetch("/api/orders", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        headers,
+        body: JSON.stringify(buildOrderPayload(quote)),
       });
 
       if (!res.ok) {
         const errBody = await res.json().catch(() => null);
-        throw new Error(errBody?.message || `Failed to create order (${res.status})`);
+        if (errBody?.fieldErrors) {
+          setFieldErrors(errBody.fieldErrors);
+          // Send the user back to the step that holds the offending fields
+          if (Object.keys(errBody.fieldErrors).some((k) => k.startsWith("shippingAddress") || k === "contactEmail")) {
+            setStep("address");
+          }
+        }
+        if (res.status === 401) {
+          throw new Error(session ? "Your session has expired. Please sign in again." : errBody?.error || "Please sign in to complete your order.");
+        }
+        if (errBody?.code === "PRICE_MISMATCH") {
+          throw new Error("Some prices have changed since you added these items. Please review your cart and try again.");
+        }
+        throw new Error(errBody?.error || `Failed to create order (${res.status})`);
       }
 
       const data = await res.json();
+      const order = data?.data;
 
       // Clear cart on success
-      setItems([]);
-      setMessage({ type: "success", text: "Order placed successfully." });
+      void clear();
+      setStep("cart");
+      setMessage({
+        type: "success",
+        text: session || !order?.orderNumber
+          ? "Order placed successfully."
+          : `Order ${order.orderNumber} placed. Keep this number to look up your order with ${order.contactEmail}.`,
+      });
 
       // Callback for parent if needed
-      if (onCheckoutSuccess) onCheckoutSuccess(data);
+      if (onCheckoutSuccess) onCheckoutSuccess(order);
 
-      // Optionally redirect to order page if order id present
-      if (data?.id) {
+      // Optionally redirect to order page if order id present (guests have no account page to go to)
+      if (session && order?.id) {
         // useRouter from next/navigation works in client components
-        router.push(`/orders/${data.id}`);
+        router.push(`/orders/${order.id}`);
       }
     } catch (error: any) {
       console.error("Checkout error:", error);
@@ -190,12 +369,23 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
         </div>
       </header>
 
-      {message && (
+      {shownMessage && (
         <div
           role="status"
-          className={`mb-4 p-2 rounded text-sm ${message.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"}`}
+          className={`mb-4 p-2 rounded text-sm flex items-start justify-between gap-2 ${shownMessage.type === "success" ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"}`}
         >
-          {message.text}
+          <span>{shownMessage.text}</span>
+          <button
+            type="button"
+            aria-label="Dismiss"
+            onClick={() => {
+              setMessage(null);
+              clearNotice();
+            }}
+            className="text-xs opacity-70 hover:opacity-100"
+          >
+            ✕
+          </button>
         </div>
       )}
 
@@ -208,7 +398,7 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
         <div className="space-y-4">
           <ul className="divide-y">
             {items.map((item) => (
-              <li key={item.id} className="flex items-center gap-4 py-4">
+              <li key={cartEntryKey(item)} className="flex items-center gap-4 py-4">
                 <div className="w-20 h-20 relative flex-shrink-0 rounded overflow-hidden bg-gray-100">
                   {item.image ? (
                     <Image src={item.image} alt={item.name} fill sizes="80px" className="object-cover" />
@@ -225,12 +415,32 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
                     <div className="text-sm text-gray-700">{formatCurrency(getPriceValue(item))}</div>
                   </div>
 
+                  {item.variant && <p className="mt-1 text-xs text-gray-600">{variantLabel(item.variant)}</p>}
                   <p className="mt-1 text-xs text-gray-500 line-clamp-2">{item.description ?? ""}</p>
 
+                  {issues
+                    .filter((issue) => issue.key === cartEntryKey(item))
+                    .map((issue) => (
+                      <div
+                        key={cartIssueId(issue)}
+                        role="alert"
+                        className="mt-2 flex items-start justify-between gap-2 rounded bg-amber-50 p-2 text-xs text-amber-800"
+                      >
+                        <span>{issueText(issue)}</span>
+                        <button
+                          onClick={() => acknowledgeIssue(cartIssueId(issue))}
+                          className="font-medium underline"
+                          type="button"
+                        >
+                          OK
+                        </button>
+                      </div>
+                    ))}
+
                   <div className="mt-3 flex items-center justify-between">
                     <div className="flex items-center border rounded text-sm overflow-hidden">
                       <button
-                        onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                        onClick={() => updateQuantity(cartEntryKey(item), item.quantity - 1)}
                         className="px-3 py-1 hover:bg-gray-100 disabled:opacity-50"
                         aria-label={`Decrease quantity of ${item.name}`}
                         disabled={item.quantity <= 1}
@@ -240,7 +450,7 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
                       </button>
                       <div className="px-3 py-1 bg-white w-12 text-center">{item.quantity}</div>
                       <button
-                        onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                        onClick={() => updateQuantity(cartEntryKey(item), item.quantity + 1)}
                         className="px-3 py-1 hover:bg-gray-100"
                         aria-label={`Increase quantity of ${item.name}`}
                         type="button"
@@ -254,7 +464,7 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
                         {formatCurrency(getPriceValue(item) * item.quantity)}
                       </div>
                       <button
-                        onClick={() => removeItem(item.id)}
+                        onClick={() => removeItem(cartEntryKey(item))}
                         className="text-sm text-red-600 hover:underline"
                         type="button"
                         aria-label={`Remove ${item.name}`}
@@ -268,19 +478,129 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
             ))}
           </ul>
 
+          {step === "address" && (
+            <form
+              className="border-t pt-4 space-y-3"
+              noValidate
+              onSubmit={(e) => {
+                e.preventDefault();
+                continueToPayment();
+              }}
+            >
+              <h3 className="text-sm font-semibold text-gray-900">Shipping address</h3>
+
+              {!session && (
+                <div>
+                  <label htmlFor="checkout-email" className="block text-xs font-medium text-gray-700">
+                    Email (for order updates)
+                  </label>
+                  <input
+                    id="checkout-email"
+                    type="email"
+                    autoComplete="email"
+                    value={guestEmail}
+                    onChange={(e) => {
+                      setGuestEmail(e.target.value);
+                      setFieldErrors(({ contactEmail: _removed, ...rest }) => rest);
+                    }}
+                    aria-invalid={Boolean(fieldErrors.contactEmail)}
+                    className="mt-1 w-full border rounded px-2 py-1 text-sm"
+                  />
+                  {fieldErrors.contactEmail && <p className="mt-1 text-xs text-red-600">{fieldErrors.contactEmail}</p>}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {ADDRESS_FIELDS.map(({ key, label, autoComplete }) => {
+                  const error = fieldErrors[`shippingAddress.${key}`];
+                  return (
+                    <div key={key}>
+                      <label htmlFor={`checkout-${key}`} className="block text-xs font-medium text-gray-700">
+                        {label}
+                      </label>
+                      <input
+                        id={`checkout-${key}`}
+                        type={key === "phone" ? "tel" : "text"}
+                        autoComplete={autoComplete}
+                        value={address[key] ?? ""}
+                        onChange={(e) => updateAddress(key, e.target.value)}
+                        aria-invalid={Boolean(error)}
+                        className="mt-1 w-full border rounded px-2 py-1 text-sm"
+                      />
+                      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setStep("cart")} className="px-3 py-2 border rounded text-sm" type="button">
+                  Back
+                </button>
+                <button className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700" type="submit">
+                  Continue to payment
+                </button>
+              </div>
+            </form>
+          )}
+
+          {step === "payment" && (
+            <fieldset className="border-t pt-4 space-y-2">
+              <legend className="text-sm font-semibold text-gray-900">Payment method</legend>
+              {PAYMENT_METHODS.map((method) => (
+                <label key={method.value} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="paymentMethod"
+                    value={method.value}
+                    checked={paymentMethod === method.value}
+                    onChange={() => setPaymentMethod(method.value)}
+                  />
+                  {method.label}
+                </label>
+              ))}
+              {fieldErrors.paymentMethod && <p className="text-xs text-red-600">{fieldErrors.paymentMethod}</p>}
+              <p className="text-xs text-gray-500">
+                Shipping to {address.fullName}, {address.address1}, {address.city} {address.postalCode}, {address.country}
+              </p>
+            </fieldset>
+          )}
+
           <div className="border-t pt-4">
             <div className="flex justify-between text-sm text-gray-600">
               <span>Subtotal</span>
               <span>{formatCurrency(subtotal)}</span>
             </div>
             <div className="flex justify-between text-sm text-gray-600 mt-1">
-              <span>Tax (est.)</span>
-              <span>{formatCurrency(tax)}</span>
+              <span>
+                {estimate?.inclusive ? `Includes ${estimate.jurisdiction ?? "tax"}` : `${estimate?.jurisdiction ?? "Tax"} (est.)`}
+              </span>
+              <span>{estimate || items.length === 0 ? formatCurrency(tax) : "—"}</span>
             </div>
             <div className="flex justify-between text-sm text-gray-600 mt-1">
-              <span>Shipping</span>
-              <span>{shipping > 0 ? formatCurrency(shipping) : "Free"}</span>
+              <span>Shipping{selectedRate ? ` (${selectedRate.label})` : ""}</span>
+              <span>{items.length > 0 && !selectedRate ? "—" : shipping > 0 ? formatCurrency(shipping) : "Free"}</span>
             </div>
+            {rates.length > 1 && step !== "payment" && (
+              <fieldset className="mt-2 space-y-1">
+                <legend className="sr-only">Shipping service</legend>
+                {rates.map((rate) => (
+                  <label key={rate.service} className="flex items-center justify-between text-sm text-gray-600">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="shippingService"
+                        value={rate.service}
+                        checked={rate.service === shippingService}
+                        onChange={() => setShippingService(rate.service)}
+                      />
+                      {rate.label} ({rate.estimatedDays.min}–{rate.estimatedDays.max} business days)
+                    </span>
+                    <span>{rate.shippingPrice > 0 ? formatCurrency(rate.shippingPrice) : "Free"}</span>
+                  </label>
+                ))}
+              </fieldset>
+            )}
 
             <div className="flex items-center justify-between mt-4">
               <div>
@@ -288,27 +608,50 @@ export default function Cart({ initialItems = [], onCheckoutSuccess, className =
                 <div className="text-xl font-semibold">{formatCurrency(total)}</div>
               </div>
 
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={handleCheckout}
-                  disabled={isLoading}
-                  className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-60"
-                  type="button"
-                >
-                  {isLoading ? "Processing..." : "Checkout"}
-                </button>
-
-                <button
-                  onClick={() => {
-                    // Quick action: save cart snapshot to localStorage (already saved)
-                    setMessage({ type: "success", text: "Cart saved." });
-                  }}
-                  className="px-3 py-2 border rounded text-sm"
-                  type="button"
-                >
-                  Save
-                </button>
-              </div>
+              {step === "cart" && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={startCheckout}
+                    disabled={isLoading || issues.length > 0}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-60"
+                    type="button"
+                  >
+                    Checkout
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      // Quick action: the shared cart already saves every change
+                      setMessage({ type: "success", text: "Cart saved." });
+                    }}
+                    className="px-3 py-2 border rounded text-sm"
+                    type="button"
+                  >
+                    Save
+                  </button>
+                </div>
+              )}
+
+              {step === "payment" && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setStep("address")}
+                    disabled={isLoading}
+                    className="px-3 py-2 border rounded text-sm"
+                    type="button"
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={handleCheckout}
+                    disabled={isLoading}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-60"
+                    type="button"
+                  >
+                    {isLoading ? "Processing..." : "Place order"}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,382 @@
+// components/CartProvider.tsx
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import type { Product, ProductVariant } from "../types/product";
+import type { CartAdjustment, CartLine } from "../types/user";
+import api, { ApiError, type ApiRequestOptions } from "../lib/api";
+import { getStoredSession, SESSION_STORAGE_KEY, type StoredSession } from "../lib/session";
+import { readStoredCart, subscribeStoredCart, writeStoredCart, type StoredCartLine } from "../lib/cartStorage";
+import { availableStock, cartLineKey, findVariant } from "../lib/variants";
+import { cartIssueId, revalidateCartLines, type CartLineIssue } from "../lib/cartRevalidation";
+import { resolveUnitPrice } from "../lib/pricing";
+
+/** A cart line as components render it: the product plus quantity and chosen variant */
+export interface CartEntry extends Product {
+  quantity: number;
+  /** chosen variant for products sold in variants; lines are keyed by product + variant */
+  variantId?: string;
+  variant?: ProductVariant;
+}
+
+export interface CartNotice {
+  type: "success" | "error";
+  text: string;
+}
+
+interface CartContextValue {
+  items: CartEntry[];
+  /** total units in the cart */
+  count: number;
+  /** false until the stored (and, when signed in, the server) cart has loaded */
+  ready: boolean;
+  session: StoredSession | null;
+  /** last problem syncing with the server, or what changed while merging carts */
+  notice: CartNotice | null;
+  clearNotice: () => void;
+  /** what changed in the catalog since lines were added, until acknowledged */
+  issues: CartLineIssue[];
+  /** check the cart against the live catalog; resolves with all unacknowledged issues */
+  revalidate: () => Promise<CartLineIssue[]>;
+  /** accept an issue (by cartIssueId): short lines are reduced, unavailable ones removed */
+  acknowledgeIssue: (id: string) => Promise<void>;
+  addItem: (product: Product, quantity?: number, variant?: ProductVariant) => Promise<void>;
+  /** set a line's quantity; 0 removes it */
+  updateQuantity: (key: string, quantity: number) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+interface CartProviderProps {
+  children: React.ReactNode;
+  /** guest cart to start with when nothing is stored yet */
+  initialItems?: CartEntry[];
+}
+
+/** Key identifying a line in the cart (see cartLineKey in lib/variants) */
+export const cartEntryKey = (item: Pick<CartEntry, "id" | "variantId">) => cartLineKey(item.id, item.variantId);
+
+const CartContext = createContext<CartContextValue | null>(null);
+
+const fromStoredLine = (line: StoredCartLine): CartEntry => ({
+  ...line.product,
+  quantity: line.quantity,
+  variantId: line.variantId,
+  variant: findVariant(line.product, line.variantId),
+});
+
+const toStoredLine = ({ quantity, variantId, variant: _variant, ...product }: CartEntry): StoredCartLine => ({
+  productId: product.id,
+  variantId,
+  quantity,
+  product,
+});
+
+const fromCartLine = (line: CartLine): CartEntry => ({
+  ...line.product,
+  quantity: line.quantity,
+  variantId: line.variantId,
+  variant: findVariant(line.product, line.variantId),
+});
+
+// Current product data for a line, keeping what the shopper chose
+const refreshEntry = (item: CartEntry, product: Product): CartEntry => ({
+  ...product,
+  quantity: item.quantity,
+  variantId: item.variantId,
+  variant: findVariant(product, item.variantId) ?? item.variant,
+});
+
+/** Read the error message sent by the cart API, if any */
+function cartErrorText(err: unknown, fallback: string) {
+  const body = err instanceof ApiError ? (err.data as { error?: string } | null) : null;
+  return body?.error || fallback;
+}
+
+/** Tell the shopper which lines changed while merging their guest cart */
+function describeAdjustments(adjustments: CartAdjustment[]) {
+  const capped = adjustments.filter((a) => a.quantity > 0).length;
+  const dropped = adjustments.length - capped;
+  return [
+    capped > 0 ? `${capped} item(s) were reduced to the quantity in stock` : "",
+    dropped > 0 ? `${dropped} unavailable item(s) were removed` : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+/**
+ * CartProvider
+ * The one cart shared by ProductCard, ProductExplorer and Cart.
+ *
+ * - Guests: the cart lives in localStorage (lib/cartStorage), including carts saved
+ *   under the legacy keys, which are migrated on first load.
+ * - Signed-in users: the cart lives on the server (/api/cart); a guest cart left in
+ *   the browser is merged into it once, and a copy is stored locally for other tabs.
+ * - Other tabs' changes arrive through `storage` events, as do sign-ins and sign-outs.
+ * - The cart is checked against the live catalog (lib/cartRevalidation) once loaded and
+ *   whenever revalidate() is called; quantities only change once an issue is acknowledged.
+ */
+export function CartProvider({ children, initialItems = [] }: CartProviderProps) {
+  const [items, setItems] = useState<CartEntry[]>([]);
+  const [ready, setReady] = useState(false);
+  const [session, setSession] = useState<StoredSession | null>(null);
+  const [notice, setNotice] = useState<CartNotice | null>(null);
+  const [issues, setIssues] = useState<CartLineIssue[]>([]);
+  // Whether `items` may be written to storage: not while a signed-in cart is still loading
+  const persist = useRef(false);
+  const sessionRef = useRef<StoredSession | null>(null);
+  // Latest values for async callbacks
+  const itemsRef = useRef<CartEntry[]>([]);
+  const issuesRef = useRef<CartLineIssue[]>([]);
+
+  const updateIssues = useCallback((next: CartLineIssue[]) => {
+    issuesRef.current = next;
+    setIssues(next);
+  }, []);
+
+  const hydrate = useCallback(async (current: StoredSession | null) => {
+    sessionRef.current = current;
+    persist.current = false;
+    setSession(current);
+    setReady(false);
+
+    const stored = readStoredCart();
+    const guest = stored.userId ? [] : stored.items;
+
+    if (!current) {
+      setItems(stored.userId ? [] : stored.items.length > 0 ? guest.map(fromStoredLine) : initialItems);
+      persist.current = true;
+      setReady(true);
+      return;
+    }
+
+    // Show what we have while the server answers
+    setItems((stored.userId === current.user.id ? stored.items : guest).map(fromStoredLine));
+    const opts = { token: current.tokens.accessToken };
+    try {
+      const data: { items: CartLine[]; adjustments?: CartAdjustment[] } =
+        guest.length > 0
+          ? (
+              await api.mergeCart(
+                guest.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+                stored.mergeId,
+                opts
+              )
+            ).data
+          : (await api.getCart(opts)).data;
+      if (sessionRef.current !== current) return;
+      persist.current = true;
+      setItems(data.items.map(fromCartLine));
+      const adjustments = describeAdjustments(data.adjustments ?? []);
+      if (adjustments) setNotice({ type: "error", text: `Your cart was updated: ${adjustments}.` });
+    } catch (err) {
+      console.error("Failed to load cart", err);
+      // the guest cart stays stored, so the merge is tried again next time
+      setNotice({ type: "error", text: cartErrorText(err, "Could not load your saved cart.") });
+    } finally {
+      if (sessionRef.current === current) setReady(true);
+    }
+    // initialItems only seeds the first load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    void hydrate(getStoredSession());
+  }, [hydrate]);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Keep the stored cart in step with what is shown
+  useEffect(() => {
+    if (!ready || !persist.current) return;
+    writeStoredCart({ userId: session?.user.id, items: items.map(toStoredLine) });
+  }, [items, ready, session]);
+
+  // Follow other tabs: cart changes, and signing in or out
+  useEffect(() => {
+    const unsubscribe = subscribeStoredCart((cart) => {
+      const current = sessionRef.current;
+      if ((cart.userId ?? null) !== (current?.user.id ?? null) || !persist.current) return;
+      setItems(cart.items.map(fromStoredLine));
+    });
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== SESSION_STORAGE_KEY) return;
+      const next = getStoredSession();
+      if (next?.user.id !== sessionRef.current?.user.id) void hydrate(next);
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("storage", onStorage);
+    };
+  }, [hydrate]);
+
+  // Signed-in carts change on the server; show the cart it sends back
+  const syncServerCart = useCallback(
+    async (change: (opts: ApiRequestOptions) => Promise<{ data: { items: CartLine[] } }>) => {
+      const current = sessionRef.current;
+      if (!current) return;
+      try {
+        const res = await change({ token: current.tokens.accessToken });
+        persist.current = true;
+        setItems(res.data.items.map(fromCartLine));
+      } catch (err) {
+        setNotice({ type: "error", text: cartErrorText(err, "Could not update your cart. Please try again.") });
+      }
+    },
+    []
+  );
+
+  const addItem = useCallback(
+    async (product: Product, quantity = 1, variant?: ProductVariant) => {
+      if (sessionRef.current) {
+        return syncServerCart((opts) => api.addCartItem({ productId: product.id, variantId: variant?.id, quantity }, opts));
+      }
+      const key = cartLineKey(product.id, variant?.id);
+      const limit = availableStock(product, variant) ?? Number.MAX_SAFE_INTEGER;
+      setItems((prev) => {
+        const existing = prev.find((it) => cartEntryKey(it) === key);
+        if (existing) {
+          return prev.map((it) => (it === existing ? { ...it, quantity: Math.min(it.quantity + quantity, limit) } : it));
+        }
+        return [...prev, { ...product, quantity: Math.min(quantity, limit), variantId: variant?.id, variant }];
+      });
+    },
+    [syncServerCart]
+  );
+
+  const removeItem = useCallback(
+    async (key: string) => {
+      const line = items.find((it) => cartEntryKey(it) === key);
+      if (sessionRef.current) {
+        if (line) await syncServerCart((opts) => api.removeCartItem(line.id, line.variantId, opts));
+        return;
+      }
+      setItems((prev) => prev.filter((it) => cartEntryKey(it) !== key));
+    },
+    [items, syncServerCart]
+  );
+
+  const updateQuantity = useCallback(
+    async (key: string, quantity: number) => {
+      const line = items.find((it) => cartEntryKey(it) === key);
+      if (sessionRef.current) {
+        if (line) {
+          await syncServerCart((opts) =>
+            api.updateCartItem({ productId: line.id, variantId: line.variantId, quantity: Math.max(0, quantity) }, opts)
+          );
+        }
+        return;
+      }
+      setItems((prev) =>
+        quantity <= 0
+          ? prev.filter((it) => cartEntryKey(it) !== key)
+          : prev.map((it) => (cartEntryKey(it) === key ? { ...it, quantity } : it))
+      );
+    },
+    [items, syncServerCart]
+  );
+
+  const clear = useCallback(async () => {
+    if (sessionRef.current) return syncServerCart((opts) => api.clearCart(opts));
+    setItems([]);
+  }, [syncServerCart]);
+
+  const revalidate = useCallback(async () => {
+    const lines = itemsRef.current;
+    if (lines.length === 0) {
+      updateIssues([]);
+      return [];
+    }
+    let products: Product[];
+    try {
+      products = (await api.lookupProducts(Array.from(new Set(lines.map((it) => it.id))))).data;
+    } catch (err) {
+      // checkout re-checks prices and stock anyway, so this does not block it
+      console.error("Failed to revalidate cart", err);
+      return issuesRef.current;
+    }
+
+    const found = revalidateCartLines(
+      lines.map((it) => ({
+        productId: it.id,
+        variantId: it.variantId,
+        quantity: it.quantity,
+        name: it.name,
+        unitPrice: resolveUnitPrice(it, it.variant),
+      })),
+      products
+    );
+    // Lines now show current prices, so a price change is only reported once; keep
+    // earlier ones until acknowledged. Stock and availability are found again each time.
+    const keys = new Set(lines.map(cartEntryKey));
+    const foundIds = new Set(found.map(cartIssueId));
+    const kept = issuesRef.current.filter(
+      (issue) => issue.type === "price_changed" && keys.has(issue.key) && !foundIds.has(cartIssueId(issue))
+    );
+    updateIssues([...kept, ...found]);
+
+    const live = new Map(products.filter((p) => p.isActive !== false).map((p) => [p.id, p]));
+    setItems((prev) => prev.map((it) => (live.has(it.id) ? refreshEntry(it, live.get(it.id)!) : it)));
+    return issuesRef.current;
+  }, [updateIssues]);
+
+  // Check the cart each time it has (re)loaded
+  useEffect(() => {
+    if (ready) void revalidate();
+  }, [ready, revalidate]);
+
+  const acknowledgeIssue = useCallback(
+    async (id: string) => {
+      const issue = issuesRef.current.find((it) => cartIssueId(it) === id);
+      if (!issue) return;
+      updateIssues(issuesRef.current.filter((it) => it !== issue));
+      const line = itemsRef.current.find((it) => cartEntryKey(it) === issue.key);
+      if (!line) return;
+      if (issue.type === "unavailable") {
+        await removeItem(issue.key);
+      } else if (issue.type === "insufficient_stock" && issue.available !== undefined && line.quantity > issue.available) {
+        await updateQuantity(issue.key, issue.available);
+      }
+    },
+    [removeItem, updateQuantity, updateIssues]
+  );
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      items,
+      count: items.reduce((sum, it) => sum + it.quantity, 0),
+      ready,
+      session,
+      notice,
+      clearNotice: () => setNotice(null),
+      // lines removed meanwhile have nothing left to acknowledge
+      issues: issues.filter((issue) => items.some((it) => cartEntryKey(it) === issue.key)),
+      revalidate,
+      acknowledgeIssue,
+      addItem,
+      updateQuantity,
+      removeItem,
+      clear,
+    }),
+    [items, ready, session, notice, issues, revalidate, acknowledgeIssue, addItem, updateQuantity, removeItem, clear]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+
+/**
+ * useCart
+ * The shared cart. Components using it must be rendered inside <CartProvider>
+ * (app/layout.tsx wraps every page).
+ */
+export function useCart(): CartContextValue {
+  const cart = useContext(CartContext);
+  if (!cart) throw new Error("useCart must be used inside <CartProvider>.");
+  return cart;
+}
+
+export default CartProvider;
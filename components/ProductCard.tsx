@@ -1,18 +1,22 @@
 // components/ProductCard.tsx
 "use client";
 
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useMemo, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
-import { Product } from "../types/product";
+import { Product, ProductVariant } from "../types/product";
+import { resolveUnitPrice } from "../lib/pricing";
+import { availableStock, findVariant, hasVariants, variantLabel } from "../lib/variants";
+import { useCart } from "./CartProvider";
 
 interface ProductCardProps {
   product: Product;
   /**
    * Optional callback when adding product to cart.
-   * If omitted, component will fall back to a localStorage-based cart.
+   * If omitted, the product goes into the shared cart (CartProvider).
+   * `variant` is the selected variant for products sold in variants.
    */
-  onAddToCart?: (product: Product, quantity: number) => Promise<void> | void;
+  onAddToCart?: (product: Product, quantity: number, variant?: ProductVariant) => Promise<void> | void;
   /**
    * Whether to show product description on the card
    */
@@ -29,9 +33,9 @@ interface ProductCardProps {
 
 /**
  * Reusable product card for listing pages and grids.
- * - Interactive: add to cart, quantity selector, wishlist toggle
+ * - Interactive: add to cart, quantity selector, variant selector, wishlist toggle
  * - Accessible: proper aria attributes
- * - Works with an optional onAddToCart prop; otherwise uses localStorage fallback
+ * - Works with an optional onAddToCart prop; otherwise adds to the shared cart (useCart)
  */
 const ProductCard: React.FC<ProductCardProps> = ({
   product,
@@ -40,9 +44,20 @@ const ProductCard: React.FC<ProductCardProps> = ({
   className = "",
   priorityImage = false,
 }) => {
+  const { addItem } = useCart();
   const [quantity, setQuantity] = useState<number>(1);
   const [isFavorite, setIsFavorite] = useState<boolean>(false);
   const [isAdding, setIsAdding] = useState<boolean>(false);
+  // Default to the first variant that is not sold out
+  const [variantId, setVariantId] = useState<string | undefined>(
+    () => (product.variants?.find((v) => v.stock === undefined || v.stock > 0) ?? product.variants?.[0])?.id
+  );
+
+  const withVariants = hasVariants(product);
+  const selectedVariant = useMemo(() => findVariant(product, variantId), [product, variantId]);
+  // Price and stock of the selected variant, falling back to the product's
+  const unitPrice = resolveUnitPrice(product, selectedVariant);
+  const stock = availableStock(product, selectedVariant);
 
   const priceFormatter = useCallback((value: number) => {
     return new Intl.NumberFormat(undefined, {
@@ -79,38 +94,16 @@ const ProductCard: React.FC<ProductCardProps> = ({
     }
   }, [isFavorite, product.id]);
 
-  const saveToLocalCart = useCallback((prod: Product, qty: number) => {
-    try {
-      const key = "cart";
-      const raw = localStorage.getItem(key);
-      const cart: { id: string; quantity: number; product: Product }[] = raw
-        ? JSON.parse(raw)
-        : [];
-      const existing = cart.find((c) => c.id === prod.id);
-      if (existing) {
-        existing.quantity = Math.min(
-          (existing.quantity || 0) + qty,
-          prod.stock ?? Number.MAX_SAFE_INTEGER
-        );
-      } else {
-        cart.push({
-          id: prod.id,
-          quantity: Math.min(qty, prod.stock ?? qty),
-          product: prod,
-        });
-      }
-      localStorage.setItem(key, JSON.stringify(cart));
-    } catch {
-      // ignore errors
-    }
-  }, []);
-
   const handleAddToCart = useCallback(
     async (e?: React.MouseEvent) => {
       if (e) e.preventDefault();
       // guard quantity
       const qty = Math.max(1, Math.floor(quantity));
-      if (product.stock !== undefined && qty > product.stock) {
+      if (withVariants && !selectedVariant) {
+        alert("Please choose an option first.");
+        return;
+      }
+      if (stock !== undefined && qty > stock) {
         // if trying to add more than stock, clamp
         // simple client-side feedback via alert (avoid extra deps)
         alert("Requested quantity exceeds available stock.");
@@ -120,10 +113,9 @@ const ProductCard: React.FC<ProductCardProps> = ({
       setIsAdding(true);
       try {
         if (onAddToCart) {
-          await onAddToCart(product, qty);
+          await onAddToCart(product, qty, selectedVariant);
         } else {
-          // fallback to localStorage cart
-          saveToLocalCart(product, qty);
+          await addItem(product, qty, selectedVariant);
         }
         // optimistic UI: reset quantity to 1
         setQuantity(1);
@@ -135,7 +127,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
         setIsAdding(false);
       }
     },
-    [quantity, onAddToCart, product, saveToLocalCart]
+    [quantity, onAddToCart, addItem, product, withVariants, selectedVariant, stock]
   );
 
   const handleQuantityChange = useCallback(
@@ -143,21 +135,18 @@ const ProductCard: React.FC<ProductCardProps> = ({
       setQuantity((q) => {
         const next = q + delta;
         if (next < 1) return 1;
-        if (product.stock !== undefined && next > product.stock)
-          return product.stock;
+        if (stock !== undefined && next > stock)
+          return stock;
         return next;
       });
     },
-    [product.stock]
+    [stock]
   );
 
-  // Helper: resolve numeric price value when product.price might be a number or Price object
-  const getPriceValue = useCallback((p: Product) => {
-    const pr = (p as any).price;
-    if (pr === undefined || pr === null) return 0;
-    if (typeof pr === "number") return pr;
-    if (typeof pr === "object" && typeof pr.value === "number") return pr.value;
-    return 0;
+  const handleVariantChange = useCallback((id: string) => {
+    setVariantId(id);
+    // the new variant may have less stock than the quantity picked for the old one
+    setQuantity(1);
   }, []);
 
   const ratingSafe = Number(
@@ -270,15 +259,36 @@ const ProductCard: React.FC<ProductCardProps> = ({
           {showDescription && product.description && (
             <p className="mt-3 text-sm text-gray-600">{truncate(product.description, 140)}</p>
           )}
+
+          {withVariants && (
+            <div className="mt-3">
+              <label htmlFor={`product-${product.id}-variant`} className="sr-only">
+                Choose an option
+              </label>
+              <select
+                id={`product-${product.id}-variant`}
+                value={variantId ?? ""}
+                onChange={(e) => handleVariantChange(e.target.value)}
+                className="w-full border rounded-md px-2 py-1 text-sm text-gray-800"
+              >
+                {product.variants!.map((v) => (
+                  <option key={v.id} value={v.id} disabled={v.stock === 0}>
+                    {variantLabel(v)}
+                    {v.stock === 0 ? " (sold out)" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         <div className="mt-4 flex items-center justify-between gap-4">
           <div>
             <div className="flex items-center gap-2">
               <p className="text-lg font-semibold text-gray-900">
-                {priceFormatter(getPriceValue(product))}
+                {priceFormatter(unitPrice)}
               </p>
-              {product.compareAt && product.compareAt > (typeof product.price === "number" ? product.price : (product.price && (product.price as any).value) ?? 0) && (
+              {product.compareAt && product.compareAt > unitPrice && (
                 <p className="text-sm text-gray-500 line-through">{priceFormatter(product.compareAt)}</p>
               )}
             </div>
@@ -326,7 +336,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
                 onClick={() => handleQuantityChange(1)}
                 className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-50"
                 aria-label="Increase quantity"
-                disabled={product.stock !== undefined && quantity >= product.stock}
+                disabled={stock !== undefined && quantity >= stock}
               >
                 +
               </button>
@@ -335,7 +345,7 @@ const ProductCard: React.FC<ProductCardProps> = ({
             <button
               type="button"
               onClick={handleAddToCart}
-              disabled={isAdding || (product.stock !== undefined && product.stock <= 0)}
+              disabled={isAdding || (stock !== undefined && stock <= 0)}
               className="inline-flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-200 disabled:opacity-50"
             >
               {isAdding ? (
@@ -355,14 +365,14 @@ const ProductCard: React.FC<ProductCardProps> = ({
                   <circle cx="18" cy="20" r="1" />
                 </svg>
               )}
-              <span>{product.stock === 0 ? "Sold out" : "Add"}</span>
+              <span>{stock === 0 ? "Sold out" : "Add"}</span>
             </button>
           </div>
         </div>
 
-        {product.stock !== undefined && (
+        {stock !== undefined && (
           <p className="mt-3 text-xs text-gray-500">
-            {product.stock > 0 ? `${product.stock} in stock` : "Out of stock"}
+            {stock > 0 ? `${stock} in stock` : "Out of stock"}
           </p>
         )}
       </div>
@@ -0,0 +1,341 @@
+// components/ProductExplorer.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import ProductCard from "./ProductCard";
+import Cart from "./Cart";
+import { Product } from "../types/product";
+import { resolveUnitPrice } from "../lib/pricing";
+import { variantLabel } from "../lib/variants";
+import { cartEntryKey, useCart } from "./CartProvider";
+
+/* ---------- Client-side interactive product explorer ---------- */
+/* Rendered by the home page (app/page.tsx) with the products it fetched.
+   It handles search, filtering, sorting and pagination; the sidebar summarises the
+   shared cart (CartProvider), the same one ProductCard adds to and Cart checks out.
+*/
+type ProductExplorerProps = {
+  initialProducts: Product[];
+};
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+export default function ProductExplorer({ initialProducts }: ProductExplorerProps) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<string>("all");
+  const [sort, setSort] = useState<string>("featured");
+  const [page, setPage] = useState<number>(1);
+  const pageSize = 12;
+
+  const { items: cartItems, updateQuantity, removeItem, clear: clearCart } = useCart();
+
+  // Helper to extract numeric price from either number or Price object
+  const getPriceValue = (p: Product) => {
+    const pr = (p as any).price;
+    if (pr === undefined || pr === null) return 0;
+    if (typeof pr === "number") return pr;
+    if (typeof pr === "object" && typeof pr.value === "number") return pr.value;
+    return 0;
+  };
+
+  // Derive categories from initial products
+  const categories = useMemo(() => {
+    const set = new Set<string>();
+    initialProducts.forEach((p) => {
+      const cat = Array.isArray(p.category) ? p.category[0] : (p.category as string | undefined);
+      if (cat) set.add(cat);
+    });
+    return ["all", ...Array.from(set)];
+  }, [initialProducts]);
+
+  // Filtering and sorting
+  const filtered = useMemo(() => {
+    let list = initialProducts.slice();
+
+    if (query.trim()) {
+      const q = query.toLowerCase();
+      list = list.filter((p) => {
+        const title = (p.title ?? p.name ?? "").toString().toLowerCase();
+        const desc = (p.description ?? "").toString().toLowerCase();
+        return title.includes(q) || desc.includes(q);
+      });
+    }
+
+    if (category !== "all") {
+      list = list.filter((p) =>
+        Array.isArray(p.category) ? p.category.includes(category) : p.category === category
+      );
+    }
+
+    switch (sort) {
+      case "price-asc":
+        list.sort((a, b) => getPriceValue(a) - getPriceValue(b));
+        break;
+      case "price-desc":
+        list.sort((a, b) => getPriceValue(b) - getPriceValue(a));
+        break;
+      case "newest":
+        // assume createdAt exists as ISO string
+        list.sort((a, b) => {
+          const da = a.createdAt ? Date.parse(a.createdAt) : 0;
+          const db = b.createdAt ? Date.parse(b.createdAt) : 0;
+          return db - da;
+        });
+        break;
+      default:
+        // featured or fallback: keep the server order
+        break;
+    }
+
+    return list;
+  }, [initialProducts, query, category, sort]);
+
+  // Pagination
+  const totalPages = Math.max(1, Math.ceil(filtered.length / pageSize));
+  useEffect(() => {
+    if (page > totalPages) setPage(1);
+  }, [totalPages, page]);
+
+  const paginated = useMemo(() => {
+    const start = (page - 1) * pageSize;
+    return filtered.slice(start, start + pageSize);
+  }, [filtered, page]);
+
+  // Priced like Cart and the server: variant price, then sale price
+  const cartTotal = useMemo(
+    () => cartItems.reduce((sum, item) => sum + resolveUnitPrice(item, item.variant) * item.quantity, 0),
+    [cartItems]
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Controls */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex-1">
+          <label htmlFor="search" className="sr-only">
+            Search products
+          </label>
+          <div className="relative">
+            <input
+              id="search"
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search products, descriptions..."
+              className="w-full rounded-md border border-gray-200 bg-white py-2 px-3 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="rounded-md border border-gray-200 bg-white py-2 px-3 text-sm focus:outline-none"
+            aria-label="Filter by category"
+          >
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {c === "all" ? "All categories" : c}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value)}
+            className="rounded-md border border-gray-200 bg-white py-2 px-3 text-sm focus:outline-none"
+            aria-label="Sort products"
+          >
+            <option value="featured">Featured</option>
+            <option value="newest">Newest</option>
+            <option value="price-asc">Price: Low to High</option>
+            <option value="price-desc">Price: High to Low</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Product grid (3 columns when wide) */}
+        <div className="lg:col-span-3">
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-sm text-gray-600">
+              Showing <span className="font-medium">{filtered.length}</span> products
+            </div>
+            <div className="text-sm text-gray-500">
+              Page {page} of {totalPages}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {paginated.length === 0 ? (
+              <div className="col-span-full rounded-md border border-dashed border-gray-200 p-8 text-center text-sm text-gray-500">
+                No products found — try adjusting your search or filters.
+              </div>
+            ) : (
+              paginated.map((p) => (
+                <div key={p.id} className="w-full">
+                  {/* ProductCard adds to the shared cart, with the chosen variant */}
+                  <ProductCard product={p} />
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Pagination controls */}
+          <nav
+            className="mt-8 flex items-center justify-between"
+            aria-label="Pagination"
+          >
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="rounded-md border border-gray-200 bg-white px-3 py-1 text-sm disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="rounded-md border border-gray-200 bg-white px-3 py-1 text-sm disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+
+            <div className="text-sm text-gray-500">
+              Showing {(page - 1) * pageSize + 1} -{" "}
+              {Math.min(page * pageSize, filtered.length)} of {filtered.length}
+            </div>
+          </nav>
+        </div>
+
+        {/* Sidebar: simple cart summary */}
+        <aside className="lg:col-span-1">
+          <div className="sticky top-24 space-y-4">
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <h3 className="text-sm font-medium text-gray-900">Cart</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Quick view of items in your cart.
+              </p>
+
+              <div className="mt-4 space-y-3">
+                {cartItems.length === 0 ? (
+                  <div className="text-sm text-gray-500">Your cart is empty</div>
+                ) : (
+                  cartItems.map((item) => (
+                    <div
+                      key={cartEntryKey(item)}
+                      className="flex items-center justify-between"
+                    >
+                      <div className="flex items-center gap-3">
+                        {item.image ? (
+                          // product.image may be a string or an array; render if string
+                          typeof item.image === "string" ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img
+                              src={item.image}
+                              alt={item.title ?? item.name}
+                              className="h-10 w-10 rounded-md object-cover"
+                            />
+                          ) : null
+                        ) : item.images && item.images.length ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={item.images[0].url}
+                            alt={item.images[0].alt ?? item.name}
+                            className="h-10 w-10 rounded-md object-cover"
+                          />
+                        ) : (
+                          <div className="h-10 w-10 rounded-md bg-gray-100" />
+                        )}
+                        <div className="text-sm">
+                          <div className="font-medium text-gray-900">
+                            {item.title ?? item.name}
+                          </div>
+                          {item.variant && (
+                            <div className="text-xs text-gray-500">{variantLabel(item.variant)}</div>
+                          )}
+                          <div className="text-xs text-gray-500">
+                            {item.quantity} × {formatCurrency(resolveUnitPrice(item, item.variant))}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={1}
+                          value={item.quantity}
+                          onChange={(e) =>
+                            updateQuantity(cartEntryKey(item), Math.max(1, Number(e.target.value) || 1))
+                          }
+                          className="w-16 rounded-md border border-gray-200 py-1 px-2 text-sm"
+                        />
+                        <button
+                          onClick={() => removeItem(cartEntryKey(item))}
+                          className="text-sm text-red-600 hover:underline"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="mt-4 border-t border-gray-100 pt-4">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span className="font-medium">{formatCurrency(cartTotal)}</span>
+                </div>
+
+                <div className="mt-4 flex gap-2">
+                  <button
+                    onClick={() => {
+                      // Placeholder checkout flow — in a real app you'd route to checkout page
+                      alert("Proceeding to checkout (demo)");
+                    }}
+                    disabled={cartItems.length === 0}
+                    className="flex-1 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white disabled:opacity-50"
+                  >
+                    Checkout
+                  </button>
+                  <button
+                    onClick={clearCart}
+                    disabled={cartItems.length === 0}
+                    className="rounded-md border border-gray-200 bg-white px-3 py-2 text-sm disabled:opacity-50"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Example of embedding the shared Cart component (if it provides more advanced UI) */}
+            <div className="rounded-lg border border-gray-200 bg-white p-4">
+              <h4 className="text-sm font-medium text-gray-900">Full Cart</h4>
+              <p className="mt-1 text-xs text-gray-500">
+                Use the full cart for advanced interactions (if available).
+              </p>
+              <div className="mt-3">
+                {/* Render the shared Cart component. We render it without props
+                    to avoid assuming a specific API. If your Cart accepts props,
+                    adapt the import/usage accordingly. */}
+                <Cart />
+              </div>
+            </div>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,6 +1,18 @@
-import type { Product } from "../types/product";
-import type { User } from "../types/user";
-import type { Order } from "../types/order";
+import type { AdjustStockInput, InventoryMovement, LowStockAlert, Product } from "../types/product";
+import type {
+  AuthResponse,
+  CartAdjustment,
+  CartItem,
+  CartLine,
+  PasswordResetConfirmDTO,
+  PasswordResetRequestDTO,
+  User,
+  UserCreateDTO,
+} from "../types/user";
+import type { Order, OrderLookupInput, OrderRefund, RefundOrderInput, UpdateOrderStatusInput } from "../types/order";
+import type { PaymentIntent } from "./payments";
+import type { ShippingRate, ShippingRateAddress, ShippingServiceLevel } from "./shipping";
+import type { TaxAddress, TaxEstimate } from "./tax";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
 
@@ -167,6 +179,10 @@ export async function apiPut<T = unknown, B = unknown>(path: string, body?: B, o
   return request<T>("PUT", path, body as unknown, opts);
 }
 
+export async function apiPatch<T = unknown, B = unknown>(path: string, body?: B, opts?: ApiRequestOptions) {
+  return request<T>("PATCH", path, body as unknown, opts);
+}
+
 export async function apiDelete<T = unknown>(path: string, opts?: ApiRequestOptions) {
   return request<T>("DELETE", path, undefined, opts);
 }
@@ -177,11 +193,17 @@ export async function apiDelete<T = unknown>(path: string, opts?: ApiRequestOpti
    - /api/products
    - /api/users
    - /api/orders
+   - /api/cart
+   - /api/tax
+   - /api/shipping
    --------------------------- */
 
 const PRODUCTS_PATH = "/products";
 const USERS_PATH = "/users";
 const ORDERS_PATH = "/orders";
+const CART_PATH = "/cart";
+const TAX_PATH = "/tax";
+const SHIPPING_PATH = "/shipping";
 
 /* Products */
 export async function getProducts(params?: ApiRequestOptions["params"], opts?: ApiRequestOptions) {
@@ -192,6 +214,11 @@ export async function getProductById(id: string, opts?: ApiRequestOptions) {
   return apiGet<Product>(`${PRODUCTS_PATH}/${encodeURIComponent(id)}`, opts);
 }
 
+/** Current products for many ids at once; ids that no longer exist come back in meta.missing */
+export async function lookupProducts(ids: string[], opts?: ApiRequestOptions) {
+  return apiPost<{ data: Product[]; meta: { missing: string[] } }>(`${PRODUCTS_PATH}/lookup`, { ids }, opts);
+}
+
 export async function createProduct(product: Partial<Product>, opts?: ApiRequestOptions) {
   return apiPost<Product>(PRODUCTS_PATH, product, opts);
 }
@@ -204,6 +231,29 @@ export async function deleteProduct(id: string, opts?: ApiRequestOptions) {
   return apiDelete<void>(`${PRODUCTS_PATH}/${encodeURIComponent(id)}`, opts);
 }
 
+export async function getStockMovements(
+  id: string,
+  params?: { variantId?: string; limit?: number },
+  opts?: ApiRequestOptions
+) {
+  return apiGet<{ data: InventoryMovement[] }>(`${PRODUCTS_PATH}/${encodeURIComponent(id)}/inventory`, {
+    ...opts,
+    params,
+  });
+}
+
+export async function adjustStock(
+  id: string,
+  input: Omit<AdjustStockInput, "productId">,
+  opts?: ApiRequestOptions
+) {
+  return apiPost<{ data: InventoryMovement }>(`${PRODUCTS_PATH}/${encodeURIComponent(id)}/inventory`, input, opts);
+}
+
+export async function getLowStockAlerts(opts?: ApiRequestOptions) {
+  return apiGet<{ data: LowStockAlert[] }>("/inventory/alerts", opts);
+}
+
 /* Users */
 export async function getUsers(params?: ApiRequestOptions["params"], opts?: ApiRequestOptions) {
   return apiGet<User[]>(USERS_PATH, { ...opts, params });
@@ -238,14 +288,148 @@ export async function createOrder(order: Partial<Order>, opts?: ApiRequestOption
   return apiPost<Order>(ORDERS_PATH, order, opts);
 }
 
+export async function updateOrderStatus(
+  id: string,
+  input: Omit<UpdateOrderStatusInput, "orderId">,
+  opts?: ApiRequestOptions
+) {
+  return apiPatch<{ success: boolean; data: Order }>(`${ORDERS_PATH}/${encodeURIComponent(id)}/status`, input, opts);
+}
+
+/**
+ * Pay for a pending order. Without `intentId` a payment intent is created (and
+ * confirmed too when `confirm` is set); with `intentId` that intent is confirmed.
+ */
+export async function payOrder(
+  id: string,
+  input: {
+    provider?: string;
+    intentId?: string;
+    confirm?: boolean;
+    paymentDetails?: Record<string, unknown>;
+    email?: string;
+  } = {},
+  opts?: ApiRequestOptions
+) {
+  return apiPost<{ success: boolean; data: Order | { intent: PaymentIntent } }>(
+    `${ORDERS_PATH}/${encodeURIComponent(id)}/pay`,
+    input,
+    opts
+  );
+}
+
+/** Cancel a pending/processing order; guests pass the order's contact email */
+export async function cancelOrder(id: string, input: { reason?: string; email?: string } = {}, opts?: ApiRequestOptions) {
+  return apiPost<{ success: boolean; data: { order: Order; refund: OrderRefund | null; refundError: string | null } }>(
+    `${ORDERS_PATH}/${encodeURIComponent(id)}/cancel`,
+    input,
+    opts
+  );
+}
+
+export async function getOrderRefunds(id: string, opts?: ApiRequestOptions) {
+  return apiGet<{ success: boolean; data: OrderRefund[] }>(`${ORDERS_PATH}/${encodeURIComponent(id)}/refunds`, opts);
+}
+
+/** Refund a whole order, specific lines, or an amount (admin) */
+export async function refundOrder(id: string, input: RefundOrderInput = {}, opts?: ApiRequestOptions) {
+  return apiPost<{ success: boolean; data: { refund: OrderRefund; order: Order } }>(
+    `${ORDERS_PATH}/${encodeURIComponent(id)}/refunds`,
+    input,
+    opts
+  );
+}
+
+/** Guest order lookup by order number + contact email */
+export async function lookupOrder(input: OrderLookupInput, opts?: ApiRequestOptions) {
+  return apiPost<{ success: boolean; data: Order }>(`${ORDERS_PATH}/lookup`, input, opts);
+}
+
+/** Attach guest orders placed with the signed-in user's (verified) email to their account */
+export async function claimGuestOrders(opts?: ApiRequestOptions) {
+  return apiPost<{ success: boolean; data: { claimed: number } }>(`${ORDERS_PATH}/claim`, undefined, opts);
+}
+
+/* Cart (signed-in users; pass the access token) */
+type CartResponse = { success: boolean; data: { items: CartLine[] } };
+type CartLineInput = Pick<CartItem, "productId" | "variantId" | "quantity">;
+
+export async function getCart(opts?: ApiRequestOptions) {
+  return apiGet<CartResponse>(CART_PATH, opts);
+}
+
+export async function addCartItem(item: CartLineInput, opts?: ApiRequestOptions) {
+  return apiPost<CartResponse>(`${CART_PATH}/items`, item, opts);
+}
+
+export async function updateCartItem(item: CartLineInput, opts?: ApiRequestOptions) {
+  return apiPatch<CartResponse>(`${CART_PATH}/items`, item, opts);
+}
+
+export async function removeCartItem(productId: string, variantId?: string, opts?: ApiRequestOptions) {
+  return apiDelete<CartResponse>(`${CART_PATH}/items`, { ...opts, params: { productId, variantId } });
+}
+
+export async function clearCart(opts?: ApiRequestOptions) {
+  return apiDelete<CartResponse>(CART_PATH, opts);
+}
+
+/**
+ * Fold the browser (guest) cart into the signed-in user's cart. Pass the guest cart's
+ * mergeId (lib/cartStorage) so a repeated merge is only applied once.
+ */
+export async function mergeCart(items: CartLineInput[], mergeId?: string, opts?: ApiRequestOptions) {
+  return apiPost<{ success: boolean; data: { items: CartLine[]; adjustments: CartAdjustment[] } }>(
+    `${CART_PATH}/merge`,
+    { items, mergeId },
+    opts
+  );
+}
+
+/* Tax */
+/** Totals with tax for cart lines shipped to an address (the same calculation as checkout) */
+export async function estimateTax(
+  input: { items: CartLineInput[]; shippingAddress: TaxAddress; shippingService?: ShippingServiceLevel },
+  opts?: ApiRequestOptions
+) {
+  return apiPost<{ success: boolean; data: TaxEstimate }>(`${TAX_PATH}/estimate`, input, opts);
+}
+
+/* Shipping */
+/** Shipping services available for cart lines shipped to an address, cheapest first */
+export async function getShippingRates(
+  input: { items: CartLineInput[]; shippingAddress: ShippingRateAddress },
+  opts?: ApiRequestOptions
+) {
+  return apiPost<{ success: boolean; data: { rates: ShippingRate[] } }>(`${SHIPPING_PATH}/rates`, input, opts);
+}
+
 /* Authentication helpers (common patterns) */
-export async function login(email: string, password: string) {
-  // expects backend to return { token, user }
-  return apiPost<{ token: string; user: User }>("/auth/login", { email, password }, { timeout: 15000 });
+const AUTH_PATH = "/auth";
+
+export async function login(email: string, password: string, remember = false) {
+  // backend returns { user, tokens } (see types/user AuthResponse)
+  return apiPost<AuthResponse>(`${AUTH_PATH}/login`, { email, password, remember }, { timeout: 15000 });
+}
+
+export async function register(user: UserCreateDTO & { remember?: boolean }) {
+  return apiPost<AuthResponse>(`${AUTH_PATH}/register`, user, { timeout: 15000 });
+}
+
+export async function refreshSession(refreshToken: string) {
+  return apiPost<AuthResponse>(`${AUTH_PATH}/refresh`, { refreshToken });
+}
+
+export async function logout(accessToken?: string, refreshToken?: string) {
+  return apiPost<void>(`${AUTH_PATH}/logout`, { refreshToken }, { token: accessToken });
+}
+
+export async function requestPasswordReset(email: string) {
+  return apiPost<{ success: boolean; message: string }, PasswordResetRequestDTO>(`${AUTH_PATH}/password-reset`, { email });
 }
 
-export async function register(user: Partial<User>) {
-  return apiPost<{ token: string; user: User }>("/auth/register", user, { timeout: 15000 });
+export async function confirmPasswordReset(token: string, newPassword: string) {
+  return apiPost<{ success: boolean }, PasswordResetConfirmDTO>(`${AUTH_PATH}/password-reset/confirm`, { token, newPassword });
 }
 
 /* Convenience default export */
@@ -253,12 +437,17 @@ const api = {
   apiGet,
   apiPost,
   apiPut,
+  apiPatch,
   apiDelete,
   getProducts,
   getProductById,
+  lookupProducts,
   createProduct,
   updateProduct,
   deleteProduct,
+  getStockMovements,
+  adjustStock,
+  getLowStockAlerts,
   getUsers,
   getUserById,
   createUser,
@@ -267,8 +456,27 @@ const api = {
   getOrders,
   getOrderById,
   createOrder,
+  updateOrderStatus,
+  payOrder,
+  cancelOrder,
+  getOrderRefunds,
+  refundOrder,
+  lookupOrder,
+  claimGuestOrders,
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  mergeCart,
+  estimateTax,
+  getShippingRates,
   login,
   register,
+  refreshSession,
+  logout,
+  requestPasswordReset,
+  confirmPasswordReset,
   ApiError,
 };
 
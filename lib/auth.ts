@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import type { AuthTokens, User, UserRole } from '../types/user';
+import { globalSingleton } from './singleton';
+
+/**
+ * lib/auth.ts
+ * Stateless access/refresh tokens for the auth API routes.
+ *
+ * - Tokens are compact HS256 JWTs signed with AUTH_SECRET using Node's crypto
+ *   (no external JWT dependency).
+ * - Access tokens are short-lived; refresh tokens live for a day, or 30 days when
+ *   the user asked to be remembered.
+ * - Logout and refresh rotation revoke tokens by id (jti). The revocation list is
+ *   kept in process memory and pruned once tokens would have expired anyway.
+ * - A password reset revokes all of a user's tokens at once (revokeUserSessions).
+ */
+
+export type TokenType = 'access' | 'refresh';
+
+export interface TokenClaims {
+  sub: string; // user id
+  role: UserRole;
+  type: TokenType;
+  jti: string;
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+  remember?: boolean;
+}
+
+/** Access token lifetime (seconds) */
+export const ACCESS_TOKEN_TTL = 15 * 60;
+/** Refresh token lifetime for regular sessions (seconds) */
+export const REFRESH_TOKEN_TTL = 24 * 60 * 60;
+/** Refresh token lifetime when `remember` is requested (seconds) */
+export const REMEMBER_REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60;
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Resolve the signing secret. A development fallback keeps local setups working,
+ * but production refuses to sign tokens with a guessable key.
+ */
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (isProduction) {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+  return 'dev-only-insecure-auth-secret';
+}
+
+/** Revoked token ids (jti) and their expiry, shared by every route (lib/singleton) */
+const revokedTokenIds = globalSingleton('revokedTokenIds', () => new Map<string, number>());
+
+function nowInSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function base64UrlEncode(value: string | Buffer) {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string) {
+  return crypto.createHmac('sha256', getAuthSecret()).update(data).digest('base64url');
+}
+
+/**
+ * signToken
+ * Encode and sign a set of claims as an HS256 JWT.
+ */
+export function signToken(claims: TokenClaims): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * verifyToken
+ * Returns the token claims when the signature is valid, the token has not expired,
+ * has not been revoked and is of the expected type. Returns null otherwise.
+ */
+export function verifyToken(token: string, expectedType: TokenType): TokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [header, payload, signature] = parts;
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (!claims || claims.type !== expectedType || typeof claims.sub !== 'string') return null;
+  if (typeof claims.exp !== 'number' || claims.exp <= nowInSeconds()) return null;
+  if (isTokenRevoked(claims.jti)) return null;
+
+  return claims;
+}
+
+/**
+ * revokeToken
+ * Mark a token id as revoked until its natural expiry.
+ */
+export function revokeToken(claims: Pick<TokenClaims, 'jti' | 'exp'>) {
+  pruneRevokedTokens();
+  revokedTokenIds.set(claims.jti, claims.exp);
+}
+
+function isTokenRevoked(jti: string) {
+  return revokedTokenIds.has(jti);
+}
+
+function pruneRevokedTokens() {
+  const now = nowInSeconds();
+  for (const [jti, exp] of revokedTokenIds) {
+    if (exp <= now) revokedTokenIds.delete(jti);
+  }
+}
+
+/**
+ * revokeUserSessions / isSessionRevoked
+ * Revoke every token a user holds (e.g. after a password change). The cut-off is kept
+ * on the user record as `metadata.sessionsRevokedAt` (epoch ms), so it survives
+ * restarts; tokens issued before it are rejected wherever the user is loaded.
+ */
+export function revokeUserSessions(user: Pick<User, 'metadata'>, now = Date.now()): Record<string, unknown> {
+  return { ...(user.metadata ?? {}), sessionsRevokedAt: now };
+}
+
+export function isSessionRevoked(claims: Pick<TokenClaims, 'iat'>, user: Pick<User, 'metadata'>) {
+  const revokedAt = user.metadata?.sessionsRevokedAt;
+  return typeof revokedAt === 'number' && claims.iat * 1000 < revokedAt;
+}
+
+/**
+ * issueAuthTokens
+ * Create a fresh access/refresh token pair for a user.
+ */
+export function issueAuthTokens(user: Pick<User, 'id' | 'role'>, opts: { remember?: boolean } = {}): AuthTokens {
+  const iat = nowInSeconds();
+  const remember = Boolean(opts.remember);
+  const refreshTtl = remember ? REMEMBER_REFRESH_TOKEN_TTL : REFRESH_TOKEN_TTL;
+
+  const accessToken = signToken({
+    sub: user.id,
+    role: user.role,
+    type: 'access',
+    jti: crypto.randomUUID(),
+    iat,
+    exp: iat + ACCESS_TOKEN_TTL,
+  });
+
+  const refreshToken = signToken({
+    sub: user.id,
+    role: user.role,
+    type: 'refresh',
+    jti: crypto.randomUUID(),
+    iat,
+    exp: iat + refreshTtl,
+    remember,
+  });
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL,
+    tokenType: 'Bearer',
+    issuedAt: new Date(iat * 1000).toISOString(),
+  };
+}
+
+/**
+ * getBearerToken
+ * Extract the token from an `Authorization: Bearer <token>` header.
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header) return null;
+  const [scheme, token] = header.split(' ');
+  if (!scheme || scheme.toLowerCase() !== 'bearer' || !token) return null;
+  return token.trim();
+}
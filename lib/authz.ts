@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { UserRole, UserStatus } from '../types/user';
+import type { User } from '../types/user';
+import type { Product } from '../types/product';
+import { getBearerToken, isSessionRevoked, verifyToken } from './auth';
+import { getUserStore } from './users';
+
+/**
+ * lib/authz.ts
+ * Role-based authorization shared by every handler in app/api/*.
+ *
+ * - CUSTOMER: may only read and edit their own user record and orders
+ * - SELLER:   customer rights, plus managing products they own (Product.vendorId)
+ * - ADMIN:    may do everything
+ *
+ * Helpers throw AuthError; handlers turn it into a response with authErrorResponse()
+ * so every route answers 401/403 with the same body:
+ *   { success: false, error: string }
+ *
+ * Usage:
+ *   try {
+ *     const actor = await requireAuth(request);
+ *     requireRole(actor, UserRole.ADMIN);
+ *   } catch (err) {
+ *     const denied = authErrorResponse(err);
+ *     if (denied) return denied;
+ *     ...
+ *   }
+ */
+
+export class AuthError extends Error {
+  public status: 401 | 403;
+
+  constructor(message: string, status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * getAuthUser
+ * Resolve the user behind the request's bearer token.
+ * Returns null when no token was sent; throws AuthError for bad tokens or
+ * suspended accounts. The user is re-read from storage so role and status
+ * changes apply immediately rather than when the token expires.
+ */
+export async function getAuthUser(request: Request): Promise<User | null> {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  const claims = verifyToken(token, 'access');
+  if (!claims) throw new AuthError('Invalid or expired token', 401);
+
+  const user = await getUserStore().getById(claims.sub);
+  if (!user || isSessionRevoked(claims, user)) throw new AuthError('Invalid or expired token', 401);
+  if (user.status === UserStatus.SUSPENDED) throw new AuthError('Account suspended', 403);
+
+  return user;
+}
+
+/**
+ * requireAuth
+ * Like getAuthUser() but rejects anonymous requests with 401.
+ */
+export async function requireAuth(request: Request): Promise<User> {
+  const user = await getAuthUser(request);
+  if (!user) throw new AuthError('Authentication required', 401);
+  return user;
+}
+
+export function isAdmin(user: Pick<User, 'role'> | null | undefined) {
+  return user?.role === UserRole.ADMIN;
+}
+
+/**
+ * requireRole
+ * Reject with 403 unless the user has one of the given roles (admins always pass).
+ */
+export function requireRole(user: Pick<User, 'role'>, ...roles: UserRole[]) {
+  if (isAdmin(user) || roles.includes(user.role)) return;
+  throw new AuthError('Forbidden', 403);
+}
+
+/**
+ * canAccessUser / assertCanAccessUser
+ * Users may act on their own record; admins on anyone's.
+ */
+export function canAccessUser(actor: Pick<User, 'id' | 'role'>, userId: string | null | undefined) {
+  return isAdmin(actor) || (!!userId && actor.id === userId);
+}
+
+export function assertCanAccessUser(actor: Pick<User, 'id' | 'role'>, userId: string | null | undefined) {
+  if (!canAccessUser(actor, userId)) throw new AuthError('Forbidden', 403);
+}
+
+/**
+ * canManageProduct / assertCanManageProduct
+ * Sellers may manage products whose vendorId is their user id; admins may manage any.
+ */
+export function canManageProduct(actor: Pick<User, 'id' | 'role'>, product: Pick<Product, 'vendorId'>) {
+  if (isAdmin(actor)) return true;
+  return actor.role === UserRole.SELLER && !!product.vendorId && product.vendorId === actor.id;
+}
+
+export function assertCanManageProduct(actor: Pick<User, 'id' | 'role'>, product: Pick<Product, 'vendorId'>) {
+  if (!canManageProduct(actor, product)) throw new AuthError('Forbidden', 403);
+}
+
+/**
+ * authErrorResponse
+ * Convert an AuthError into the standard 401/403 response. Returns null for any
+ * other error so callers can fall through to their own handling.
+ */
+export function authErrorResponse(err: unknown): NextResponse | null {
+  if (!(err instanceof AuthError)) return null;
+  const headers: Record<string, string> = {};
+  if (err.status === 401) headers['WWW-Authenticate'] = 'Bearer';
+  return NextResponse.json({ success: false, error: err.message }, { status: err.status, headers });
+}
@@ -0,0 +1,102 @@
+import prisma, { runTransaction } from "./db";
+import { ORDER_INCLUDE } from "./orders";
+import { OrderStatusError, planStatusTransition, toStatusSnapshot } from "./orderStatus";
+import { getPaymentProvider } from "./payments";
+import { restockLine } from "./inventory";
+import { refundOrder } from "./refunds";
+import { fromJson, toJson } from "./rows";
+import type { OrderRefund, OrderStatus, PaymentResult } from "../types/order";
+
+/**
+ * lib/cancellations.ts
+ * Cancelling orders before they ship.
+ *
+ * Only 'pending' and 'processing' orders can be cancelled; once an order has shipped
+ * it has to go through a refund instead. Cancelling:
+ *   1. voids an open payment intent, so it can no longer be captured
+ *   2. moves the order to 'cancelled' and returns every unit to stock in one
+ *      runTransaction(), so stock and status never disagree
+ *   3. refunds paid ('processing') orders in full, without restocking a second time
+ */
+
+export const CANCELLABLE_STATUSES: readonly OrderStatus[] = ["pending", "processing"];
+
+export interface CancelOrderOptions {
+  actorId?: string;
+  reason?: string;
+}
+
+/**
+ * cancelOrder
+ * Cancel an order and restock its items. Throws OrderStatusError when the order is
+ * missing or past the point of cancellation, and PaymentError when an open intent
+ * cannot be voided. A failed refund of a paid order does not undo the cancellation;
+ * it is reported as `refundError` and can be retried via the refunds API.
+ */
+export async function cancelOrder(orderId: string, options: CancelOrderOptions = {}) {
+  const order = await prisma.order.findUnique({ where: { id: orderId }, include: { items: true } });
+  if (!order) throw new OrderStatusError("Order not found.", 404);
+
+  if (order.status === "cancelled") {
+    throw new OrderStatusError("Order is already cancelled.");
+  }
+  if (!CANCELLABLE_STATUSES.includes(order.status)) {
+    throw new OrderStatusError(`Orders in '${order.status}' cannot be cancelled; request a refund instead.`);
+  }
+
+  // 1. Void an intent that was started but never confirmed before touching the order
+  const payment = fromJson<PaymentResult>(order.paymentResult);
+  let voidedPayment: PaymentResult | undefined;
+  if (!order.isPaid && payment?.provider && payment.transactionId && payment.status === "requires_confirmation") {
+    await getPaymentProvider(payment.provider, { allowManual: true }).cancelIntent(payment.transactionId);
+    voidedPayment = { ...payment, status: "cancelled" };
+  }
+
+  const patch = planStatusTransition(toStatusSnapshot(order), {
+    status: "cancelled",
+    notes: options.reason ? [order.notes, `Cancelled: ${options.reason}`].filter(Boolean).join("\n") : undefined,
+  });
+
+  // 2. Cancel and restock atomically; the guard on status/isPaid catches a payment or
+  //    another cancellation landing in between
+  await runTransaction(async (tx) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, status: order.status, isPaid: order.isPaid },
+      data: { ...patch, paymentResult: toJson(voidedPayment) },
+    });
+    if (count === 0) {
+      throw new OrderStatusError("Order changed while cancelling. Reload and try again.");
+    }
+
+    // Lines already refunded had their stock settled by the refund
+    for (const item of order.items) {
+      const quantity = item.quantity - (item.refundedQuantity ?? 0);
+      if (quantity > 0) {
+        await restockLine(
+          tx,
+          { productId: item.productId, variantId: item.variantId, quantity },
+          { type: "cancellation", orderId: order.id, actorId: options.actorId, reason: options.reason }
+        );
+      }
+    }
+  });
+
+  // 3. Give the money back for orders that were already paid
+  let refund: OrderRefund | null = null;
+  let refundError: string | null = null;
+  if (order.isPaid) {
+    try {
+      ({ refund } = await refundOrder(
+        order.id,
+        { reason: options.reason ?? "Order cancelled", restock: false },
+        options.actorId
+      ));
+    } catch (err) {
+      console.error(`cancelOrder: refund for order ${order.id} failed`, err);
+      refundError = err instanceof Error ? err.message : "Refund failed.";
+    }
+  }
+
+  const updated = await prisma.order.findUnique({ where: { id: order.id }, include: ORDER_INCLUDE });
+  return { order: updated, refund, refundError };
+}
@@ -0,0 +1,300 @@
+import type { Product } from "../types/product";
+import type { CartAdjustment, CartItem, CartLine, User } from "../types/user";
+import { getProductStore } from "./products";
+import { getUserStore } from "./users";
+import { availableStock, cartLineKey, findVariant, hasVariants, variantOptionsRecord } from "./variants";
+
+/**
+ * lib/cart.ts
+ * Server-side carts for signed-in users, stored as CartItem[] on the user record
+ * (User.cart) through the configured user store.
+ *
+ * Lines are keyed by product + variant (cartLineKey). Quantities are checked against
+ * current stock when they change; checkout re-checks everything (lib/pricing,
+ * lib/inventory), so a cart is never a reservation.
+ * Guest carts stay in the browser until sign-in, when mergeCart() folds them in:
+ * quantities of the same line are summed and capped at available stock.
+ *
+ * Every change reads the cart and writes it back only if the user record has not
+ * changed since (updateByIdIf with its updatedAt, see lib/users), retrying otherwise,
+ * so simultaneous changes from several tabs are all applied. A merge carries the
+ * guest cart's mergeId (lib/cartStorage); ids already applied are remembered on the
+ * user, so a merge retried or replayed from another tab does not add the lines twice.
+ */
+
+/** Upper bound for one line when the product does not track stock */
+export const MAX_CART_LINE_QUANTITY = 99;
+
+/** Reads and guarded writes tried before a change gives up to concurrent ones */
+const CART_WRITE_ATTEMPTS = 3;
+
+/** Applied merge ids kept per user (User.metadata.cartMergeIds) */
+const MERGE_IDS_KEPT = 20;
+
+/**
+ * Error raised for invalid cart changes.
+ * `status` is the HTTP status a route should respond with; `available` is set when
+ * the quantity asked for exceeds stock.
+ */
+export class CartError extends Error {
+  public status: number;
+  public available?: number;
+
+  constructor(message: string, status = 422, available?: number) {
+    super(message);
+    this.name = "CartError";
+    this.status = status;
+    this.available = available;
+  }
+}
+
+export interface CartItemInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+/**
+ * parseCartItemInput
+ * Validate a { productId, variantId?, quantity } body. `allowZero` accepts a
+ * quantity of 0 (used by updates, where 0 removes the line).
+ */
+export function parseCartItemInput(body: unknown, { allowZero = false } = {}): CartItemInput {
+  const b = (body ?? {}) as Record<string, unknown>;
+  if (typeof b.productId !== "string" || b.productId.trim() === "") {
+    throw new CartError("'productId' is required.", 400);
+  }
+  if (b.variantId !== undefined && b.variantId !== null && (typeof b.variantId !== "string" || b.variantId.trim() === "")) {
+    throw new CartError("'variantId' must be a non-empty string.", 400);
+  }
+  const quantity = Number(b.quantity ?? 1);
+  if (!Number.isInteger(quantity) || quantity < (allowZero ? 0 : 1)) {
+    throw new CartError(`'quantity' must be an integer of at least ${allowZero ? 0 : 1}.`, 400);
+  }
+  return { productId: b.productId, variantId: (b.variantId as string | null) ?? undefined, quantity };
+}
+
+// Cart items as stored, dropping anything malformed (the column is free-form JSON)
+function storedItems(cart: unknown): CartItem[] {
+  if (!Array.isArray(cart)) return [];
+  return cart.filter(
+    (it): it is CartItem =>
+      !!it && typeof it.productId === "string" && Number.isInteger(it.quantity) && it.quantity > 0
+  );
+}
+
+// Most units of a product/variant one line may hold
+function lineLimit(product: Product, variantId?: string) {
+  const stock = availableStock(product, findVariant(product, variantId));
+  return stock === undefined ? MAX_CART_LINE_QUANTITY : Math.min(stock, MAX_CART_LINE_QUANTITY);
+}
+
+// The product for a line, or a CartError when it cannot be bought as asked
+async function sellableProduct(productId: string, variantId?: string) {
+  const product = await getProductStore().getById(productId);
+  if (!product || product.isActive === false) {
+    throw new CartError(`Product not found: ${productId}`, 404);
+  }
+  if (variantId) {
+    if (!findVariant(product, variantId)) {
+      throw new CartError(`Variant ${variantId} does not belong to product ${productId}.`, 422);
+    }
+  } else if (hasVariants(product)) {
+    throw new CartError("Choose a variant of this product.", 422);
+  }
+  return product;
+}
+
+function checkQuantity(product: Product, variantId: string | undefined, quantity: number) {
+  const limit = lineLimit(product, variantId);
+  if (quantity > limit) {
+    throw new CartError(`Only ${limit} of ${product.name} available.`, 409, limit);
+  }
+}
+
+async function loadItems(userId: string) {
+  const user = await getUserStore().getById(userId);
+  if (!user) throw new CartError("User not found.", 404);
+  return storedItems(user.cart);
+}
+
+/**
+ * Apply `change` to the stored cart. The result is written only while the user is
+ * unchanged since it was read; otherwise the cart is read and changed again.
+ * `change` returns the fields to write, or null to leave the user as it is.
+ */
+async function updateCart(
+  userId: string,
+  change: (items: CartItem[], user: User) => Promise<Partial<User> | null>
+): Promise<CartItem[]> {
+  const store = getUserStore();
+  for (let attempt = 1; ; attempt++) {
+    const user = await store.getById(userId);
+    if (!user) throw new CartError("User not found.", 404);
+    const updates = await change(storedItems(user.cart), user);
+    if (!updates) return storedItems(user.cart);
+
+    const updated = await store.updateByIdIf(userId, { updatedAt: user.updatedAt }, updates);
+    if (updated) return storedItems(updated.cart);
+    if (attempt >= CART_WRITE_ATTEMPTS) {
+      throw new CartError("The cart was changed elsewhere at the same time. Try again.", 409);
+    }
+  }
+}
+
+// Merge ids already applied to a user's cart
+function appliedMergeIds(user: User): string[] {
+  const ids = user.metadata?.cartMergeIds;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * toCartLines
+ * Attach the current product to each stored item. Items whose product no longer
+ * exists are left out.
+ */
+export async function toCartLines(items: CartItem[]): Promise<CartLine[]> {
+  const ids = Array.from(new Set(items.map((it) => it.productId)));
+  const products = new Map((await getProductStore().getByIds(ids)).map((p) => [p.id, p]));
+  return items.filter((it) => products.has(it.productId)).map((it) => ({ ...it, product: products.get(it.productId)! }));
+}
+
+/** getCart - the user's cart */
+export async function getCart(userId: string): Promise<CartLine[]> {
+  return toCartLines(await loadItems(userId));
+}
+
+/**
+ * addCartItem
+ * Add units of a product (or variant), on top of any already in the cart.
+ */
+export async function addCartItem(userId: string, input: CartItemInput): Promise<CartLine[]> {
+  const product = await sellableProduct(input.productId, input.variantId);
+  const key = cartLineKey(input.productId, input.variantId);
+  const variant = findVariant(product, input.variantId);
+
+  const saved = await updateCart(userId, async (items) => {
+    const existing = items.find((it) => cartLineKey(it.productId, it.variantId) === key);
+    const quantity = (existing?.quantity ?? 0) + input.quantity;
+    checkQuantity(product, input.variantId, quantity);
+    return {
+      cart: existing
+        ? items.map((it) => (it === existing ? { ...it, quantity } : it))
+        : [
+            ...items,
+            {
+              productId: input.productId,
+              variantId: input.variantId,
+              quantity,
+              selectedOptions: variant ? variantOptionsRecord(variant) : undefined,
+              addedAt: new Date().toISOString(),
+            },
+          ],
+    };
+  });
+  return toCartLines(saved);
+}
+
+/**
+ * setCartItemQuantity
+ * Set the quantity of a line already in the cart; 0 removes it.
+ */
+export async function setCartItemQuantity(userId: string, input: CartItemInput): Promise<CartLine[]> {
+  if (input.quantity === 0) return removeCartItem(userId, input.productId, input.variantId);
+
+  const key = cartLineKey(input.productId, input.variantId);
+  const saved = await updateCart(userId, async (items) => {
+    if (!items.some((it) => cartLineKey(it.productId, it.variantId) === key)) {
+      throw new CartError("That item is not in the cart.", 404);
+    }
+    const product = await sellableProduct(input.productId, input.variantId);
+    checkQuantity(product, input.variantId, input.quantity);
+    return {
+      cart: items.map((it) => (cartLineKey(it.productId, it.variantId) === key ? { ...it, quantity: input.quantity } : it)),
+    };
+  });
+  return toCartLines(saved);
+}
+
+/** removeCartItem - drop a line (a no-op when it is not in the cart) */
+export async function removeCartItem(userId: string, productId: string, variantId?: string): Promise<CartLine[]> {
+  const key = cartLineKey(productId, variantId);
+  const saved = await updateCart(userId, async (items) => ({
+    cart: items.filter((it) => cartLineKey(it.productId, it.variantId) !== key),
+  }));
+  return toCartLines(saved);
+}
+
+/** clearCart - empty the user's cart */
+export async function clearCart(userId: string): Promise<CartLine[]> {
+  return toCartLines(await updateCart(userId, async () => ({ cart: [] })));
+}
+
+/**
+ * mergeCart
+ * Fold a guest cart into the user's cart. Lines for the same product/variant have
+ * their quantities summed and capped at available stock; lines that cannot be
+ * bought any more are dropped. Every capped or dropped line is reported.
+ * A `mergeId` that was already applied returns the cart unchanged.
+ */
+export async function mergeCart(
+  userId: string,
+  guestItems: CartItemInput[],
+  mergeId?: string
+): Promise<{ items: CartLine[]; adjustments: CartAdjustment[] }> {
+  let adjustments: CartAdjustment[] = [];
+  const saved = await updateCart(userId, async (items, user) => {
+    adjustments = [];
+    const applied = appliedMergeIds(user);
+    if (mergeId && applied.includes(mergeId)) return null;
+
+    const merged = new Map<string, CartItem>(items.map((it) => [cartLineKey(it.productId, it.variantId), { ...it }]));
+    for (const guest of guestItems) {
+      const key = cartLineKey(guest.productId, guest.variantId);
+      const existing = merged.get(key);
+      merged.set(
+        key,
+        existing
+          ? { ...existing, quantity: existing.quantity + guest.quantity }
+          : { productId: guest.productId, variantId: guest.variantId, quantity: guest.quantity, addedAt: new Date().toISOString() }
+      );
+    }
+
+    const next: CartItem[] = [];
+    for (const item of Array.from(merged.values())) {
+      let product: Product;
+      try {
+        product = await sellableProduct(item.productId, item.variantId);
+      } catch (err) {
+        if (!(err instanceof CartError)) throw err;
+        adjustments.push({ productId: item.productId, variantId: item.variantId, requested: item.quantity, quantity: 0, reason: "unavailable" });
+        continue;
+      }
+      const limit = lineLimit(product, item.variantId);
+      if (item.quantity > limit) {
+        adjustments.push({
+          productId: item.productId,
+          variantId: item.variantId,
+          requested: item.quantity,
+          quantity: limit,
+          reason: limit === 0 ? "unavailable" : "insufficient_stock",
+        });
+        if (limit === 0) continue;
+      }
+      const variant = findVariant(product, item.variantId);
+      next.push({
+        ...item,
+        quantity: Math.min(item.quantity, limit),
+        selectedOptions: variant ? variantOptionsRecord(variant) : item.selectedOptions,
+      });
+    }
+
+    if (!mergeId) return { cart: next };
+    return {
+      cart: next,
+      metadata: { ...user.metadata, cartMergeIds: [...applied, mergeId].slice(-MERGE_IDS_KEPT) },
+    };
+  });
+
+  return { items: await toCartLines(saved), adjustments };
+}
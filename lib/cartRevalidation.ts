@@ -0,0 +1,77 @@
+import type { Product } from "../types/product";
+import { PRICE_TOLERANCE, resolveUnitPrice } from "./pricing";
+import { availableStock, cartLineKey, findVariant, hasVariants } from "./variants";
+
+/**
+ * lib/cartRevalidation.ts
+ * Check a cart against the live catalog (POST /api/products/lookup).
+ *
+ * Carts keep a copy of each product from when it was added, so prices and stock
+ * they show can be out of date. The cart is checked when it loads and again before
+ * checkout; every difference is reported as an issue on its line, which the shopper
+ * acknowledges before going on (see components/CartProvider). Checkout itself still
+ * re-prices and re-checks everything on the server (lib/pricing, lib/inventory).
+ */
+
+export type CartLineIssueType = "price_changed" | "insufficient_stock" | "unavailable";
+
+export interface CartLineIssue {
+  /** cartLineKey of the line */
+  key: string;
+  productId: string;
+  variantId?: string;
+  type: CartLineIssueType;
+  name: string;
+  /** price_changed: unit price the cart showed, and the catalog's now */
+  previousPrice?: number;
+  currentPrice?: number;
+  /** insufficient_stock: units that can still be bought */
+  available?: number;
+}
+
+export interface RevalidationLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  /** name and unit price the shopper saw */
+  name: string;
+  unitPrice: number;
+}
+
+/**
+ * revalidateCartLines
+ * Compare cart lines with the current products. A line whose product is gone,
+ * discontinued (isActive: false), out of stock, or missing its variant is
+ * "unavailable"; otherwise it may have a changed price, too little stock, or both.
+ */
+export function revalidateCartLines(lines: RevalidationLine[], products: Product[]): CartLineIssue[] {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const issues: CartLineIssue[] = [];
+
+  for (const line of lines) {
+    const base = { key: cartLineKey(line.productId, line.variantId), productId: line.productId, variantId: line.variantId };
+    const product = byId.get(line.productId);
+    const variant = product ? findVariant(product, line.variantId) : undefined;
+    const sellable =
+      !!product && product.isActive !== false && (line.variantId ? !!variant : !hasVariants(product));
+    const stock = product ? availableStock(product, variant) : undefined;
+
+    if (!product || !sellable || stock === 0) {
+      issues.push({ ...base, type: "unavailable", name: product?.name ?? line.name });
+      continue;
+    }
+
+    const currentPrice = resolveUnitPrice(product, variant);
+    if (Math.abs(currentPrice - line.unitPrice) > PRICE_TOLERANCE) {
+      issues.push({ ...base, type: "price_changed", name: product.name, previousPrice: line.unitPrice, currentPrice });
+    }
+    if (stock !== undefined && line.quantity > stock) {
+      issues.push({ ...base, type: "insufficient_stock", name: product.name, available: stock });
+    }
+  }
+
+  return issues;
+}
+
+/** Identity of an issue: one line can have a price and a stock issue at once */
+export const cartIssueId = (issue: Pick<CartLineIssue, "key" | "type">) => `${issue.key}|${issue.type}`;
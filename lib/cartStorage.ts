@@ -0,0 +1,172 @@
+import type { Product } from "../types/product";
+import { cartLineKey } from "./variants";
+
+/**
+ * Browser-side persistence for the shared cart (components/CartProvider).
+ *
+ * The cart is stored under one versioned key. Older builds wrote two unrelated carts,
+ * and both are migrated into it the first time it is read, then removed:
+ *   "cart_v1" - Product & { quantity, variantId?, variant? }[]            (Cart)
+ *   "cart"    - { id: lineKey, quantity, product, variantId? }[]          (ProductCard)
+ * Lines found in both are merged by summing their quantities.
+ *
+ * `userId` marks a copy of a signed-in user's server cart (/api/cart), kept so other
+ * tabs stay in sync; a record without it is a guest cart, merged into the server cart
+ * on sign-in. A guest cart keeps one random `mergeId` from its first line until it is
+ * merged, so the server can recognise the same merge sent twice (lib/cart).
+ * All helpers are no-ops during server rendering.
+ */
+
+export const CART_STORAGE_KEY = "cart_v2";
+export const CART_STORAGE_VERSION = 2;
+
+const LEGACY_CART_KEYS = ["cart_v1", "cart"] as const;
+
+export interface StoredCartLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  /** product as it was when added, for display until the server says otherwise */
+  product: Product;
+}
+
+export interface StoredCart {
+  version: typeof CART_STORAGE_VERSION;
+  userId?: string;
+  /** guest carts only; sent with POST /api/cart/merge */
+  mergeId?: string;
+  items: StoredCartLine[];
+}
+
+const EMPTY_CART: StoredCart = { version: CART_STORAGE_VERSION, items: [] };
+
+function isLine(value: unknown): value is StoredCartLine {
+  const line = value as Partial<StoredCartLine> | null;
+  return (
+    !!line &&
+    typeof line.productId === "string" &&
+    typeof line.quantity === "number" &&
+    Number.isInteger(line.quantity) &&
+    line.quantity > 0 &&
+    !!line.product &&
+    typeof line.product.id === "string"
+  );
+}
+
+/** Parse a stored cart_v2 value; anything unreadable counts as an empty cart */
+export function parseStoredCart(raw: string | null): StoredCart {
+  if (!raw) return EMPTY_CART;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed?.version !== CART_STORAGE_VERSION || !Array.isArray(parsed.items)) return EMPTY_CART;
+    return {
+      version: CART_STORAGE_VERSION,
+      userId: typeof parsed.userId === "string" ? parsed.userId : undefined,
+      mergeId: typeof parsed.mergeId === "string" ? parsed.mergeId : undefined,
+      items: parsed.items.filter(isLine),
+    };
+  } catch {
+    return EMPTY_CART;
+  }
+}
+
+// Lines from a legacy key, whichever of the two old shapes it holds
+function readLegacyLines(key: string): StoredCartLine[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((value: unknown): StoredCartLine | null => {
+        // { product, quantity, variantId? } or the product itself with a quantity field
+        const entry = (value ?? {}) as Record<string, unknown>;
+        const product = (entry.product ?? entry) as Record<string, unknown> | null;
+        if (!product || typeof product.id !== "string") return null;
+        const { quantity: _quantity, variant: _variant, variantId: _variantId, ...rest } = product;
+        return {
+          productId: product.id,
+          variantId: typeof entry.variantId === "string" ? entry.variantId : undefined,
+          quantity: Number(entry.quantity),
+          product: rest as unknown as Product,
+        };
+      })
+      .filter(isLine);
+  } catch {
+    return [];
+  }
+}
+
+/** Sum quantities of lines for the same product + variant */
+export function mergeStoredLines(...lists: StoredCartLine[][]): StoredCartLine[] {
+  const merged = new Map<string, StoredCartLine>();
+  for (const line of lists.flat()) {
+    const key = cartLineKey(line.productId, line.variantId);
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * readStoredCart
+ * The stored cart, migrating the legacy keys into it on first use.
+ */
+export function readStoredCart(): StoredCart {
+  if (typeof window === "undefined") return EMPTY_CART;
+  try {
+    const raw = localStorage.getItem(CART_STORAGE_KEY);
+    const legacy = LEGACY_CART_KEYS.filter((key) => localStorage.getItem(key) !== null);
+    if (legacy.length === 0) return parseStoredCart(raw);
+
+    const current = parseStoredCart(raw);
+    // legacy carts were always guest carts
+    const cart: StoredCart = current.userId
+      ? current
+      : { ...current, items: mergeStoredLines(current.items, ...legacy.map(readLegacyLines)) };
+    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart));
+    legacy.forEach((key) => localStorage.removeItem(key));
+    return cart;
+  } catch {
+    return EMPTY_CART;
+  }
+}
+
+function newMergeId() {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * writeStoredCart
+ * Save the cart. Unchanged values are not written again, so a tab applying another
+ * tab's change does not echo it back. A non-empty guest cart keeps the stored
+ * mergeId, or gets a new one.
+ */
+export function writeStoredCart(cart: Omit<StoredCart, "version" | "mergeId">) {
+  if (typeof window === "undefined") return;
+  try {
+    const raw = localStorage.getItem(CART_STORAGE_KEY);
+    const mergeId =
+      cart.userId || cart.items.length === 0 ? undefined : parseStoredCart(raw).mergeId ?? newMergeId();
+    const value = JSON.stringify({ version: CART_STORAGE_VERSION, ...cart, mergeId });
+    if (raw !== value) localStorage.setItem(CART_STORAGE_KEY, value);
+  } catch {
+    // ignore storage errors (private mode, quota)
+  }
+}
+
+/**
+ * subscribeStoredCart
+ * Call `listener` when another tab changes the stored cart. Returns an unsubscribe
+ * function. (Browsers only fire `storage` events in the tabs that did not write.)
+ */
+export function subscribeStoredCart(listener: (cart: StoredCart) => void) {
+  if (typeof window === "undefined") return () => undefined;
+  const onStorage = (event: StorageEvent) => {
+    if (event.storageArea !== localStorage) return;
+    // key is null when another tab cleared all of localStorage
+    if (event.key === CART_STORAGE_KEY || event.key === null) listener(parseStoredCart(event.newValue));
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
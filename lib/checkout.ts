@@ -0,0 +1,227 @@
+import type { ShippingAddress } from "../types/order";
+import type { Product } from "../types/product";
+import { CartError, parseCartItemInput } from "./cart";
+import { orderTotals, priceOrderLines, type OrderLineInput, type PricedOrderLine } from "./pricing";
+import { getProductStore } from "./products";
+import { quoteShippingRate, type ShippingLineInput, type ShippingServiceLevel } from "./shipping";
+import { calculateTax, type TaxLineInput } from "./tax";
+import { findVariant, hasVariants } from "./variants";
+
+/**
+ * lib/checkout.ts
+ * Loads and prices the lines of a cart for every checkout step, so that a quote and the
+ * order placed from it cannot disagree: POST /api/shipping/rates and POST /api/tax/estimate
+ * use loadPricedCart(), POST /api/orders uses priceCart() on its validated items and
+ * quoteCharges() for shipping and tax.
+ *
+ * Every line must name an existing, active product, and one of its variants when the
+ * product is sold in variants (lib/variants). Prices come from the catalog (lib/pricing).
+ *
+ * A pending order whose shipping address changes (PATCH /api/orders/[id]) is quoted
+ * again with pricePlacedOrder(), which keeps the unit prices the lines were ordered at.
+ */
+
+const REQUIRED_ADDRESS_FIELDS = ["fullName", "address1", "city", "postalCode", "country"] as const;
+const OPTIONAL_ADDRESS_FIELDS = ["address2", "state", "phone", "instructions"] as const;
+
+function roundToTwo(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export interface UnavailableLine {
+  /** position of the line in the request's `items` */
+  index: number;
+  productId: string;
+  variantId?: string;
+  name: string;
+}
+
+/**
+ * Raised when lines name discontinued products (isActive: false, see lib/cartRevalidation).
+ * `items` lists every such line and is safe to return to the client.
+ */
+export class ProductUnavailableError extends Error {
+  public status = 409;
+  public code = "PRODUCT_UNAVAILABLE" as const;
+  public items: UnavailableLine[];
+
+  constructor(items: UnavailableLine[]) {
+    super(`No longer available: ${items.map((i) => i.name).join(", ")}.`);
+    this.name = "ProductUnavailableError";
+    this.items = items;
+  }
+}
+
+/** A line of an order already placed (OrderItem) */
+export interface PlacedOrderLine {
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  quantity: number;
+  /** unit price charged */
+  price: number;
+}
+
+export interface PricedCart {
+  items: OrderLineInput[];
+  productsById: Map<string, Product>;
+  lines: PricedOrderLine[];
+  itemsPrice: number;
+  /** input for quoteShippingRate() / quoteShippingRates() */
+  shippingLines: ShippingLineInput[];
+  /** input for calculateTax() */
+  taxLines: TaxLineInput[];
+}
+
+/**
+ * loadPricedCart
+ * Parse `body.items` ({ productId, variantId?, quantity }[], as for the cart) and
+ * price them with priceCart(). Malformed items throw CartError (400).
+ */
+export async function loadPricedCart(body: unknown): Promise<PricedCart> {
+  const rawItems = (body as { items?: unknown } | null)?.items;
+  if (!Array.isArray(rawItems)) {
+    throw new CartError("'items' must be an array.", 400);
+  }
+  const items = rawItems.map((item: unknown, idx: number) => {
+    try {
+      return parseCartItemInput(item);
+    } catch (err) {
+      if (err instanceof CartError) throw new CartError(`items[${idx}]: ${err.message}`, err.status);
+      throw err;
+    }
+  });
+  return priceCart(items);
+}
+
+/**
+ * priceCart
+ * Load the products of validated lines, check that each can be bought as asked and
+ * price them from the catalog. Throws CartError for the first line naming an unknown
+ * product (404) or a wrong or missing variant (422), and ProductUnavailableError
+ * listing every discontinued line.
+ */
+export async function priceCart(items: OrderLineInput[]): Promise<PricedCart> {
+  const ids = Array.from(new Set(items.map((item) => item.productId)));
+  const productsById = new Map((await getProductStore().getByIds(ids)).map((p) => [p.id, p]));
+
+  const unavailable: UnavailableLine[] = [];
+  items.forEach((item, index) => {
+    const product = productsById.get(item.productId);
+    if (!product) throw new CartError(`items[${index}]: Product not found: ${item.productId}`, 404);
+    if (product.isActive === false) {
+      unavailable.push({ index, productId: item.productId, variantId: item.variantId, name: product.name });
+    }
+  });
+  if (unavailable.length > 0) throw new ProductUnavailableError(unavailable);
+
+  items.forEach((item, index) => {
+    const product = productsById.get(item.productId)!;
+    if (item.variantId) {
+      if (!findVariant(product, item.variantId)) {
+        throw new CartError(`items[${index}]: Variant ${item.variantId} does not belong to product ${item.productId}.`, 422);
+      }
+    } else if (hasVariants(product)) {
+      throw new CartError(`items[${index}]: Choose a variant of product ${item.productId}.`, 422);
+    }
+  });
+
+  return toPricedCart(items, productsById, priceOrderLines(items, productsById));
+}
+
+/**
+ * pricePlacedOrder
+ * A PricedCart for the lines of a placed order at the unit prices they were ordered
+ * at, so its shipping and tax can be quoted again. Throws CartError (404) when a
+ * product is missing.
+ */
+export async function pricePlacedOrder(orderItems: PlacedOrderLine[]): Promise<PricedCart> {
+  const items: OrderLineInput[] = orderItems.map((item) => ({
+    productId: item.productId,
+    variantId: item.variantId ?? undefined,
+    quantity: item.quantity,
+  }));
+  const ids = Array.from(new Set(items.map((item) => item.productId)));
+  const productsById = new Map((await getProductStore().getByIds(ids)).map((p) => [p.id, p]));
+  for (const id of ids) {
+    if (!productsById.has(id)) throw new CartError(`Product not found: ${id}`, 404);
+  }
+
+  const lines: PricedOrderLine[] = orderItems.map((item) => ({
+    productId: item.productId,
+    variantId: item.variantId ?? undefined,
+    name: item.name,
+    quantity: item.quantity,
+    unitPrice: item.price,
+    lineTotal: roundToTwo(item.price * item.quantity),
+  }));
+  return toPricedCart(items, productsById, lines);
+}
+
+function toPricedCart(items: OrderLineInput[], productsById: Map<string, Product>, lines: PricedOrderLine[]): PricedCart {
+  return {
+    items,
+    productsById,
+    lines,
+    itemsPrice: orderTotals(lines).itemsPrice,
+    shippingLines: items.map((item) => ({ product: productsById.get(item.productId)!, quantity: item.quantity })),
+    taxLines: lines.map((l) => ({
+      productId: l.productId,
+      variantId: l.variantId,
+      category: productsById.get(l.productId)?.category,
+      amount: l.lineTotal,
+    })),
+  };
+}
+
+/**
+ * quoteCharges
+ * Shipping at the chosen service level and tax for a priced cart sent to `address`,
+ * with the resulting order totals. Throws ShippingError when the service is not
+ * available there.
+ */
+export function quoteCharges(cart: PricedCart, service: ShippingServiceLevel, address: ShippingAddress) {
+  const shipping = quoteShippingRate(service, { lines: cart.shippingLines, itemsPrice: cart.itemsPrice, address });
+  const tax = calculateTax({ lines: cart.taxLines, shippingPrice: shipping.shippingPrice, address });
+  return { shipping, tax, totals: orderTotals(cart.lines, shipping.shippingPrice, tax.taxPrice, tax.inclusive) };
+}
+
+/**
+ * validateShippingAddress
+ * Check a client-supplied ShippingAddress, adding each problem to `errors` under its
+ * field path (e.g. "shippingAddress.city"). Returns the trimmed address when valid.
+ */
+export function validateShippingAddress(value: unknown, errors: Record<string, string>): ShippingAddress | undefined {
+  if (typeof value !== "object" || value === null) {
+    errors.shippingAddress = "Missing 'shippingAddress'.";
+    return undefined;
+  }
+  const a = value as Record<string, unknown>;
+  let valid = true;
+  for (const field of REQUIRED_ADDRESS_FIELDS) {
+    if (typeof a[field] !== "string" || !(a[field] as string).trim()) {
+      errors[`shippingAddress.${field}`] = `'${field}' is required.`;
+      valid = false;
+    }
+  }
+  for (const field of OPTIONAL_ADDRESS_FIELDS) {
+    if (a[field] !== undefined && typeof a[field] !== "string") {
+      errors[`shippingAddress.${field}`] = `Invalid '${field}'.`;
+      valid = false;
+    }
+  }
+  if (!valid) return undefined;
+
+  const s = a as Record<string, string | undefined>;
+  return {
+    fullName: s.fullName!.trim(),
+    address1: s.address1!.trim(),
+    address2: s.address2,
+    city: s.city!.trim(),
+    state: s.state,
+    postalCode: s.postalCode!.trim(),
+    country: s.country!.trim(),
+    phone: s.phone,
+    instructions: s.instructions,
+  };
+}
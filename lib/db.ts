@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
 
 /**
  * Database connection utility using Prisma.
@@ -19,7 +19,7 @@ import { PrismaClient } from '@prisma/client';
  */
 declare global {
   // eslint-disable-next-line no-var
-  var __prismaClient?: PrismaClient;
+  var __prismaClient: PrismaClient | undefined;
 }
 
 // Configure Prisma logging in development for easier debugging.
@@ -61,11 +61,11 @@ export function getPrisma(): PrismaClient {
  *   });
  */
 export async function runTransaction<T>(
-  callback: (tx: PrismaClient) => Promise<T>,
+  callback: (tx: Prisma.TransactionClient) => Promise<T>,
   opts?: { maxWait?: number; timeout?: number } // forwarded to $transaction
 ): Promise<T> {
   // Prisma $transaction can accept an async callback which receives a transactional client.
-  return prisma.$transaction(callback as any, opts);
+  return prisma.$transaction(callback, opts);
 }
 
 /**
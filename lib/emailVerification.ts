@@ -0,0 +1,131 @@
+import { UserStatus } from '../types/user';
+import type { User } from '../types/user';
+import type { UserStore } from './users';
+import { createOneTimeToken, matchesTokenHash, parseOneTimeToken } from './tokens';
+import { appUrl, getMailTransport } from './mail';
+
+/**
+ * lib/emailVerification.ts
+ * Email verification lifecycle for UserStatus.PENDING accounts.
+ *
+ * Verification state lives under `metadata.emailVerification` on the user record
+ * (metadata is never sent to clients, see SafeUser):
+ *   { tokenHash, expiresAt, sentAt: ISO timestamps of recent sends }
+ */
+
+/** Verification links expire after 24 hours */
+export const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+/** Minimum delay between two verification emails for the same account */
+export const RESEND_MIN_INTERVAL_MS = 60 * 1000;
+/** Maximum verification emails per account in a rolling 24 hour window */
+export const RESEND_MAX_PER_DAY = 5;
+
+const RESEND_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface EmailVerificationState {
+  tokenHash?: string | null;
+  expiresAt?: string | null;
+  sentAt?: string[];
+}
+
+function getVerificationState(user: User): EmailVerificationState {
+  const state = user.metadata?.emailVerification;
+  return state && typeof state === 'object' ? (state as EmailVerificationState) : {};
+}
+
+function recentSends(state: EmailVerificationState, now = Date.now()) {
+  return (state.sentAt ?? []).filter((ts) => now - Date.parse(ts) < RESEND_WINDOW_MS);
+}
+
+/**
+ * isPendingVerification
+ * True while the account is blocked on confirming its email address.
+ */
+export function isPendingVerification(user: Pick<User, 'status'>) {
+  return user.status === UserStatus.PENDING;
+}
+
+/**
+ * canResendVerification
+ * Unverified, non-suspended accounts may ask for a new verification email.
+ */
+export function canResendVerification(user: Pick<User, 'status' | 'emailVerified'>) {
+  return user.emailVerified !== true && user.status !== UserStatus.SUSPENDED;
+}
+
+/**
+ * getResendDelay
+ * Milliseconds until another verification email may be sent (0 when allowed now).
+ */
+export function getResendDelay(user: User, now = Date.now()): number {
+  const sends = recentSends(getVerificationState(user), now);
+  if (sends.length === 0) return 0;
+
+  const times = sends.map((ts) => Date.parse(ts)).sort((a, b) => a - b);
+  const sinceLast = now - times[times.length - 1];
+  const intervalDelay = Math.max(0, RESEND_MIN_INTERVAL_MS - sinceLast);
+  const dailyDelay = times.length >= RESEND_MAX_PER_DAY ? times[0] + RESEND_WINDOW_MS - now : 0;
+  return Math.max(intervalDelay, dailyDelay);
+}
+
+/**
+ * sendVerificationEmail
+ * Issue a new verification token (invalidating earlier ones) and email the link.
+ * Callers are responsible for checking getResendDelay() first.
+ */
+export async function sendVerificationEmail(user: User, store: UserStore): Promise<User> {
+  const now = Date.now();
+  const state = getVerificationState(user);
+  const { token, tokenHash, expiresAt } = createOneTimeToken(user.id, VERIFICATION_TOKEN_TTL_MS);
+
+  const updated =
+    (await store.updateById(user.id, {
+      metadata: {
+        ...(user.metadata ?? {}),
+        emailVerification: {
+          tokenHash,
+          expiresAt,
+          sentAt: [...recentSends(state, now), new Date(now).toISOString()],
+        },
+      },
+    })) ?? user;
+
+  const link = appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+  await getMailTransport().send({
+    to: user.email,
+    subject: 'Confirm your ShopFlux email address',
+    text: [
+      'Welcome to ShopFlux! Please confirm your email address to finish setting up your account.',
+      '',
+      `Confirm your email: ${link}`,
+      '',
+      'This link expires in 24 hours.',
+    ].join('\n'),
+  });
+
+  return updated;
+}
+
+/**
+ * confirmEmailVerification
+ * Validate a verification token and activate the account.
+ * Returns the updated user, or null when the token is invalid or expired.
+ */
+export async function confirmEmailVerification(token: unknown, store: UserStore): Promise<User | null> {
+  const parsed = parseOneTimeToken(token);
+  if (!parsed) return null;
+
+  const user = await store.getById(parsed.userId);
+  if (!user) return null;
+
+  const state = getVerificationState(user);
+  if (!matchesTokenHash(parsed.secret, state.tokenHash, state.expiresAt)) return null;
+
+  const { emailVerification, ...metadata } = user.metadata ?? {};
+  return store.updateById(user.id, {
+    emailVerified: true,
+    // Suspended accounts stay suspended; only pending accounts are activated
+    status: user.status === UserStatus.SUSPENDED ? user.status : UserStatus.ACTIVE,
+    metadata,
+  });
+}
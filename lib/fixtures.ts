@@ -0,0 +1,464 @@
+import type { Product, ProductImage, ProductVariant } from "../types/product";
+import { UserRole, UserStatus, type User } from "../types/user";
+import { calculateOrderTotals, type Order, type OrderItem, type OrderRefund, type OrderStatus } from "../types/order";
+import { slugify } from "./products";
+import { resolveUnitPrice } from "./pricing";
+import { quoteShippingRate } from "./shipping";
+import { calculateTax } from "./tax";
+import { sumVariantStock, variantLabel, variantOptionsRecord } from "./variants";
+
+/**
+ * lib/fixtures.ts
+ * Deterministic development data: products with variants, images, ratings and
+ * categories, users in every UserRole and orders in every OrderStatus.
+ *
+ * Everything comes from one seeded RNG and timestamps count back from a fixed date,
+ * so a given seed always produces the same ids, names, prices and dates. Nothing
+ * here touches storage; lib/seed loads the result into the configured backend.
+ */
+
+export interface FixtureOptions {
+  seed?: number;
+  products?: number;
+  customers?: number;
+  orders?: number;
+}
+
+export interface Fixtures {
+  users: User[];
+  products: Product[];
+  orders: Order[];
+}
+
+export const DEFAULT_FIXTURE_SEED = 1337;
+
+/** Password of every generated user, for signing in locally */
+export const FIXTURE_PASSWORD = "password123";
+
+const FIXTURE_EPOCH = Date.parse("2024-06-01T00:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const ORDER_STATUSES: readonly OrderStatus[] = ["pending", "processing", "shipped", "delivered", "cancelled", "refunded"];
+
+/* --------------------------------- RNG ---------------------------------- */
+
+export interface Rng {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  /** `count` distinct items, in their original order */
+  sample<T>(items: readonly T[], count: number): T[];
+  /** UUID-shaped id built from the RNG (not cryptographically random) */
+  uuid(): string;
+}
+
+/**
+ * createRng
+ * mulberry32: small, fast and identical on every platform for the same seed.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const hex = (length: number) => Array.from({ length }, () => int(0, 15).toString(16)).join("");
+
+  return {
+    next,
+    int,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[int(0, items.length - 1)],
+    sample(items, count) {
+      const indexes = items.map((_, i) => i);
+      for (let i = indexes.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+      }
+      return indexes
+        .slice(0, Math.min(count, items.length))
+        .sort((a, b) => a - b)
+        .map((i) => items[i]);
+    },
+    uuid: () => `${hex(8)}-${hex(4)}-4${hex(3)}-${"89ab"[int(0, 3)]}${hex(3)}-${hex(12)}`,
+  };
+}
+
+/* ------------------------------- Catalog -------------------------------- */
+
+interface CatalogEntry {
+  category: string;
+  nouns: string[];
+  /** option name -> values; products in categories without options have no variants */
+  options?: Record<string, string[]>;
+  priceRange: [number, number];
+  /** shipping weight range in kg */
+  weightRange: [number, number];
+  /** packed size in cm (height, width, depth) */
+  box: [number, number, number];
+}
+
+const CATALOG: CatalogEntry[] = [
+  {
+    category: "Apparel",
+    nouns: ["T-Shirt", "Hoodie", "Rain Jacket", "Sweater", "Chinos"],
+    options: { Size: ["S", "M", "L", "XL"], Color: ["Black", "White", "Navy", "Olive"] },
+    priceRange: [18, 140],
+    weightRange: [0.2, 1.2],
+    box: [5, 30, 25],
+  },
+  {
+    category: "Footwear",
+    nouns: ["Sneakers", "Hiking Boots", "Sandals", "Loafers"],
+    options: { Size: ["7", "8", "9", "10", "11"] },
+    priceRange: [40, 190],
+    weightRange: [0.6, 1.8],
+    box: [12, 33, 20],
+  },
+  {
+    category: "Electronics",
+    nouns: ["Headphones", "Bluetooth Speaker", "USB-C Charger", "Keyboard", "Wireless Mouse"],
+    options: { Color: ["Black", "Silver", "Blue"] },
+    priceRange: [19, 320],
+    weightRange: [0.1, 2.5],
+    box: [10, 25, 20],
+  },
+  {
+    category: "Home",
+    nouns: ["Coffee Mug", "Desk Lamp", "Throw Blanket", "Planter", "Soy Candle"],
+    priceRange: [8, 95],
+    weightRange: [0.3, 3],
+    box: [20, 30, 30],
+  },
+  {
+    category: "Outdoors",
+    nouns: ["Backpack", "Water Bottle", "Tent", "Hammock", "Camp Stove"],
+    options: { Color: ["Forest", "Sand", "Slate"] },
+    priceRange: [15, 260],
+    weightRange: [0.3, 6],
+    box: [25, 40, 30],
+  },
+  {
+    category: "Beauty",
+    nouns: ["Face Serum", "Hand Cream", "Lip Balm", "Shampoo", "Sunscreen"],
+    priceRange: [6, 60],
+    weightRange: [0.05, 0.5],
+    box: [6, 12, 8],
+  },
+];
+
+const ADJECTIVES = ["Classic", "Everyday", "Urban", "Alpine", "Coastal", "Heritage", "Minimal", "Trail", "Studio", "Weekend"];
+const TAGS = ["new", "bestseller", "eco", "gift", "limited"];
+const FIRST_NAMES = ["Alex", "Sam", "Jordan", "Taylor", "Morgan", "Casey", "Riley", "Jamie", "Avery", "Quinn", "Drew", "Robin"];
+const LAST_NAMES = ["Nguyen", "Garcia", "Smith", "Okafor", "Kowalski", "Haddad", "Silva", "Tanaka", "Meyer", "Brown"];
+const CITIES = [
+  { city: "Portland", state: "OR", postalCode: "97205" },
+  { city: "Austin", state: "TX", postalCode: "78701" },
+  { city: "Chicago", state: "IL", postalCode: "60607" },
+  { city: "Boston", state: "MA", postalCode: "02110" },
+  { city: "Denver", state: "CO", postalCode: "80202" },
+];
+const STREETS = ["Main St", "Oak Ave", "Pine St", "Maple Dr", "Cedar Ln", "Elm St"];
+const CARRIERS = ["UPS", "USPS", "FedEx"];
+
+function roundToTwo(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Prices end in .99 or .49 like a real catalog
+function fixturePrice(rng: Rng, [min, max]: [number, number]) {
+  return rng.int(min, max) + (rng.chance(0.7) ? 0.99 : 0.49);
+}
+
+// A moment up to `days` before the fixture epoch
+function pastDate(rng: Rng, days: number) {
+  return FIXTURE_EPOCH - rng.int(0, days * DAY);
+}
+
+function iso(time: number) {
+  return new Date(time).toISOString();
+}
+
+/* -------------------------------- Users --------------------------------- */
+
+function generateUsers(rng: Rng, customers: number): User[] {
+  const users: User[] = [];
+  const add = (role: UserRole, status: UserStatus, email?: string) => {
+    const firstName = rng.pick(FIRST_NAMES);
+    const lastName = rng.pick(LAST_NAMES);
+    const createdAt = iso(pastDate(rng, 365));
+    users.push({
+      id: rng.uuid(),
+      email: email ?? `${firstName}.${lastName}${users.length}@example.com`.toLowerCase(),
+      emailVerified: status !== UserStatus.PENDING,
+      firstName,
+      lastName,
+      role,
+      status,
+      cart: [],
+      createdAt,
+      updatedAt: createdAt,
+    });
+  };
+
+  add(UserRole.ADMIN, UserStatus.ACTIVE, "admin@example.com");
+  add(UserRole.SELLER, UserStatus.ACTIVE, "seller@example.com");
+  add(UserRole.SELLER, UserStatus.ACTIVE);
+  add(UserRole.CUSTOMER, UserStatus.ACTIVE, "customer@example.com");
+  // one customer awaiting email verification and one suspended, the rest active
+  for (let i = 1; i < customers; i++) {
+    const status = i === 1 ? UserStatus.PENDING : i === 2 ? UserStatus.SUSPENDED : UserStatus.ACTIVE;
+    add(UserRole.CUSTOMER, status);
+  }
+  return users;
+}
+
+/* ------------------------------- Products ------------------------------- */
+
+function generateImages(rng: Rng, slug: string, name: string): ProductImage[] {
+  return Array.from({ length: rng.int(1, 3) }, (_, position) => ({
+    id: rng.uuid(),
+    url: `https://picsum.photos/seed/${slug}-${position + 1}/800/800`,
+    alt: position === 0 ? name : `${name} - view ${position + 1}`,
+    width: 800,
+    height: 800,
+    position,
+  }));
+}
+
+function generateVariants(rng: Rng, sku: string, basePrice: number, options: Record<string, string[]>): ProductVariant[] {
+  // A few values of each option, combined into every variant
+  const dimensions = Object.entries(options).map(([name, values]) => ({
+    name,
+    values: rng.sample(values, rng.int(2, Math.min(3, values.length))),
+  }));
+  let combinations: { name: string; value: string }[][] = [[]];
+  for (const { name, values } of dimensions) {
+    combinations = combinations.flatMap((combo) => values.map((value) => [...combo, { name, value }]));
+  }
+
+  return combinations.map((combo) => {
+    const variant: ProductVariant = {
+      id: rng.uuid(),
+      sku: [sku, ...combo.map((o) => slugify(o.value).toUpperCase())].join("-"),
+      options: combo,
+      // larger sizes cost a little more now and then
+      price: combo.some((o) => o.value === "XL" || o.value === "11") ? roundToTwo(basePrice + 5) : undefined,
+      stock: rng.chance(0.1) ? 0 : rng.int(1, 40),
+    };
+    variant.name = variantLabel(variant);
+    return variant;
+  });
+}
+
+function generateProducts(rng: Rng, count: number, sellers: User[]): Product[] {
+  const products: Product[] = [];
+  const slugs = new Set<string>();
+
+  for (let i = 0; i < count; i++) {
+    const entry = CATALOG[i % CATALOG.length];
+    const name = `${rng.pick(ADJECTIVES)} ${rng.pick(entry.nouns)}`;
+    let slug = slugify(name);
+    for (let n = 2; slugs.has(slug); n++) slug = `${slugify(name)}-${n}`;
+    slugs.add(slug);
+
+    const sku = `${entry.category.slice(0, 3).toUpperCase()}-${String(i + 1).padStart(4, "0")}`;
+    const price = fixturePrice(rng, entry.priceRange);
+    const tags = rng.sample(TAGS, rng.int(0, 2));
+    const onSale = rng.chance(0.2);
+    const reviewsCount = rng.chance(0.15) ? 0 : rng.int(1, 480);
+    const images = generateImages(rng, slug, name);
+    const variants = entry.options ? generateVariants(rng, sku, price, entry.options) : undefined;
+    const createdAt = iso(pastDate(rng, 300));
+    const [height, width, depth] = entry.box;
+
+    products.push({
+      id: rng.uuid(),
+      name,
+      slug,
+      description: `${name} from our ${entry.category.toLowerCase()} range. Generated fixture data.`,
+      shortDescription: `${entry.category} · ${name}`,
+      price,
+      compareAt: onSale ? roundToTwo(price * 1.25) : undefined,
+      image: images[0].url,
+      images,
+      category: entry.category,
+      tags: onSale ? [...tags, "sale"] : tags,
+      sku,
+      variants,
+      weight: { value: rng.int(entry.weightRange[0] * 100, entry.weightRange[1] * 100) / 100, unit: "kg" },
+      dimensions: { height, width, depth, unit: "cm" },
+      stock: variants ? sumVariantStock(variants) : rng.chance(0.1) ? 0 : rng.int(1, 120),
+      lowStockThreshold: 5,
+      rating: reviewsCount > 0 ? rng.int(30, 50) / 10 : undefined,
+      reviewsCount,
+      isFeatured: rng.chance(0.15),
+      isActive: !rng.chance(0.05),
+      vendorId: rng.pick(sellers).id,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  }
+  return products;
+}
+
+/* -------------------------------- Orders -------------------------------- */
+
+// Same format as generateOrderNumber in lib/orders, drawn from the RNG instead
+function fixtureOrderNumber(rng: Rng) {
+  const alphabet = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+  return `SF-${Array.from({ length: 8 }, () => rng.pick(alphabet.split(""))).join("")}`;
+}
+
+function generateOrderItems(rng: Rng, products: Product[]): OrderItem[] {
+  return rng.sample(products, rng.int(1, 3)).map((product) => {
+    const variant = product.variants?.length ? rng.pick(product.variants) : undefined;
+    return {
+      id: rng.uuid(),
+      productId: product.id,
+      variantId: variant?.id,
+      name: variant ? `${product.name} (${variantLabel(variant)})` : product.name,
+      image: product.image,
+      quantity: rng.int(1, 3),
+      price: resolveUnitPrice(product, variant),
+      variant: variant ? variantOptionsRecord(variant) : undefined,
+      sku: variant?.sku ?? product.sku,
+      refundedQuantity: 0,
+    };
+  });
+}
+
+function generateOrders(rng: Rng, count: number, users: User[], products: Product[]): Order[] {
+  const admin = users.find((u) => u.role === UserRole.ADMIN);
+  const customers = users.filter((u) => u.role === UserRole.CUSTOMER && u.status === UserStatus.ACTIVE);
+  const sellable = products.filter((p) => p.isActive !== false);
+  const orders: Order[] = [];
+
+  for (let i = 0; i < count; i++) {
+    // The first orders cover every status once; the rest are random
+    const status = i < ORDER_STATUSES.length ? ORDER_STATUSES[i] : rng.pick(ORDER_STATUSES);
+    const customer = rng.chance(0.15) ? undefined : rng.pick(customers);
+    const createdAt = pastDate(rng, 90);
+    const items = generateOrderItems(rng, sellable);
+    const place = rng.pick(CITIES);
+    const address = { country: "US", state: place.state, postalCode: place.postalCode };
+    const shipping = quoteShippingRate("standard", {
+      lines: items.map((it) => ({ product: sellable.find((p) => p.id === it.productId)!, quantity: it.quantity })),
+      itemsPrice: roundToTwo(items.reduce((sum, it) => sum + it.price * it.quantity, 0)),
+      address,
+    });
+    const tax = calculateTax({
+      lines: items.map((it) => ({
+        productId: it.productId,
+        variantId: it.variantId,
+        category: sellable.find((p) => p.id === it.productId)?.category,
+        amount: roundToTwo(it.price * it.quantity),
+      })),
+      shippingPrice: shipping.shippingPrice,
+      address,
+    });
+    const totals = { ...calculateOrderTotals(items, shipping.shippingPrice, tax.inclusive ? 0 : tax.taxPrice), taxPrice: tax.taxPrice };
+    const paid = status !== "pending" && status !== "cancelled";
+    const shipped = status === "shipped" || status === "delivered" || status === "refunded";
+    const delivered = status === "delivered" || status === "refunded";
+
+    const order: Order = {
+      id: rng.uuid(),
+      orderNumber: fixtureOrderNumber(rng),
+      userId: customer?.id,
+      contactEmail: customer?.email ?? `guest${i}@example.com`,
+      items,
+      shippingAddress: {
+        fullName: customer ? `${customer.firstName} ${customer.lastName}` : "Guest Shopper",
+        address1: `${rng.int(10, 9999)} ${rng.pick(STREETS)}`,
+        city: place.city,
+        state: place.state,
+        postalCode: place.postalCode,
+        country: "US",
+      },
+      paymentMethod: "manual",
+      shippingService: shipping.service,
+      ...totals,
+      taxInclusive: tax.inclusive,
+      currency: "USD",
+      isPaid: paid,
+      isDelivered: delivered,
+      status,
+      refundedAmount: 0,
+      createdAt: iso(createdAt),
+      updatedAt: iso(createdAt),
+    };
+
+    if (paid) {
+      order.paidAt = iso(createdAt + HOUR);
+      order.paymentResult = {
+        provider: "manual",
+        status: "succeeded",
+        amount: totals.totalPrice,
+        currency: "USD",
+        paidAt: order.paidAt,
+      };
+    }
+    if (shipped) {
+      order.shippedAt = iso(createdAt + DAY);
+      order.shippingCarrier = rng.pick(CARRIERS);
+      order.trackingNumber = `1Z${rng.uuid().replace(/-/g, "").slice(0, 16).toUpperCase()}`;
+    }
+    if (delivered) {
+      order.deliveredAt = iso(createdAt + 4 * DAY);
+    }
+    if (status === "cancelled") {
+      order.notes = "Cancelled: Ordered by mistake";
+    }
+    if (status === "refunded") {
+      const refund: OrderRefund = {
+        id: rng.uuid(),
+        orderId: order.id!,
+        amount: totals.totalPrice,
+        currency: "USD",
+        reason: "Item not as described",
+        items: items.map((it) => ({
+          orderItemId: it.id!,
+          productId: it.productId,
+          variantId: it.variantId,
+          quantity: it.quantity,
+          amount: roundToTwo(it.price * it.quantity),
+        })),
+        restock: true,
+        status: "succeeded",
+        actorId: admin?.id,
+        createdAt: iso(createdAt + 10 * DAY),
+      };
+      items.forEach((it) => (it.refundedQuantity = it.quantity));
+      order.refundedAmount = totals.totalPrice;
+      order.refunds = [refund];
+      order.paymentResult = { ...order.paymentResult, status: "refunded" };
+    }
+    order.updatedAt = order.refunds?.[0].createdAt ?? order.deliveredAt ?? order.shippedAt ?? order.paidAt ?? order.createdAt;
+    orders.push(order);
+  }
+
+  return orders.sort((a, b) => Date.parse(a.createdAt!) - Date.parse(b.createdAt!));
+}
+
+/**
+ * generateFixtures
+ * The full dataset for a seed. Counts default to a catalog small enough to browse
+ * (36 products, 8 customers, 24 orders) while covering every role and status.
+ */
+export function generateFixtures(options: FixtureOptions = {}): Fixtures {
+  const rng = createRng(options.seed ?? DEFAULT_FIXTURE_SEED);
+  const users = generateUsers(rng, Math.max(3, options.customers ?? 8));
+  const sellers = users.filter((u) => u.role === UserRole.SELLER);
+  const products = generateProducts(rng, Math.max(1, options.products ?? 36), sellers);
+  const orders = generateOrders(rng, Math.max(ORDER_STATUSES.length, options.orders ?? 24), users, products);
+  return { users, products, orders };
+}
@@ -0,0 +1,225 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { InsufficientStockError, reserveStock, type StockLine, type TransactionClient } from "./inventory";
+
+/**
+ * lib/inventory.test.ts
+ * Concurrency checks for reserveStock(): parallel checkouts race for the last units
+ * and exactly as many as there is stock for may win.
+ *
+ * Runs without a database. Checkouts go through MemoryDatabase below, a stand-in for
+ * the Prisma transaction client with only the calls reserveStock() makes. Like
+ * Postgres, a guarded update waits for other transactions holding the row and then
+ * re-checks its condition, updated rows stay locked until the transaction ends, and
+ * a transaction that throws is rolled back. Every call yields to the event loop, so
+ * parallel checkouts interleave.
+ *   npx tsx --test lib/inventory.test.ts
+ */
+
+const PARALLEL_CHECKOUTS = 8;
+
+interface ProductRecord {
+  id: string;
+  name: string;
+  stock: number | null;
+  lowStockThreshold: number | null;
+}
+
+interface VariantRecord {
+  id: string;
+  productId: string;
+  name: string | null;
+  sku: string | null;
+  stock: number | null;
+}
+
+interface MovementRecord {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  type: string;
+  quantity: number;
+  createdAt: Date;
+}
+
+type StockFilter = { gte?: number; not?: null };
+type StockChange = { increment?: number; decrement?: number };
+type StockUpdate = { where: { id: string; productId?: string; stock?: StockFilter }; data: { stock: StockChange } };
+
+function matchesStock(stock: number | null, filter: StockFilter = {}) {
+  if ("not" in filter && stock === null) return false;
+  if (filter.gte !== undefined && (stock === null || stock < filter.gte)) return false;
+  return true;
+}
+
+function yieldToOthers() {
+  return new Promise<void>((resolve) => setImmediate(resolve));
+}
+
+class MemoryDatabase {
+  products = new Map<string, ProductRecord>();
+  variants = new Map<string, VariantRecord>();
+  movements: MovementRecord[] = [];
+  private locks = new Map<string, { owner: object; released: Promise<void> }>();
+  private nextId = 1;
+
+  createProduct(data: { stock: number; variantStock?: number[] }) {
+    const product: ProductRecord = { id: `p${this.nextId++}`, name: "Concurrency test", stock: data.stock, lowStockThreshold: null };
+    this.products.set(product.id, product);
+    const variants = (data.variantStock ?? []).map((stock, idx): VariantRecord => {
+      const variant = { id: `v${this.nextId++}`, productId: product.id, name: `Variant ${idx + 1}`, sku: null, stock };
+      this.variants.set(variant.id, variant);
+      return variant;
+    });
+    return { ...product, variants };
+  }
+
+  /** Run `fn` like runTransaction(): its row locks are held until it ends and its writes are undone if it throws */
+  async transaction<T>(fn: (tx: TransactionClient) => Promise<T>): Promise<T> {
+    const owner = {};
+    const undo: (() => void)[] = [];
+    const release: (() => void)[] = [];
+    try {
+      return await fn(this.client(owner, undo, release));
+    } catch (err) {
+      undo.reverse().forEach((u) => u());
+      throw err;
+    } finally {
+      release.forEach((r) => r());
+    }
+  }
+
+  private client(owner: object, undo: (() => void)[], release: (() => void)[]): TransactionClient {
+    const guardedUpdate = async (key: string, record: { stock: number | null } | undefined, { where, data }: StockUpdate) => {
+      await yieldToOthers();
+      // Wait for other transactions holding the row, then check the condition against what they left
+      for (let held = this.locks.get(key); held && held.owner !== owner; held = this.locks.get(key)) {
+        await held.released;
+      }
+      if (!record || !matchesStock(record.stock, where.stock)) return { count: 0 };
+
+      if (!this.locks.has(key)) {
+        let unlock!: () => void;
+        this.locks.set(key, { owner, released: new Promise<void>((resolve) => (unlock = resolve)) });
+        release.push(() => {
+          this.locks.delete(key);
+          unlock();
+        });
+      }
+      const delta = (data.stock.increment ?? 0) - (data.stock.decrement ?? 0);
+      record.stock = (record.stock ?? 0) + delta;
+      undo.push(() => {
+        record.stock = (record.stock ?? 0) - delta;
+      });
+      return { count: 1 };
+    };
+
+    const client = {
+      product: {
+        updateMany: (args: StockUpdate) => guardedUpdate(args.where.id, this.products.get(args.where.id), args),
+        findUnique: async ({ where }: { where: { id: string } }) => {
+          await yieldToOthers();
+          const product = this.products.get(where.id);
+          return product ? { ...product } : null;
+        },
+      },
+      productVariant: {
+        updateMany: (args: StockUpdate) => {
+          const variant = this.variants.get(args.where.id);
+          const belongs = !args.where.productId || variant?.productId === args.where.productId;
+          return guardedUpdate(args.where.id, belongs ? variant : undefined, args);
+        },
+        findUnique: async ({ where }: { where: { id: string } }) => {
+          await yieldToOthers();
+          const variant = this.variants.get(where.id);
+          return variant ? { ...variant } : null;
+        },
+      },
+      inventoryMovement: {
+        create: async ({ data }: { data: Omit<MovementRecord, "id" | "createdAt"> }) => {
+          await yieldToOthers();
+          const row: MovementRecord = { ...data, id: `m${this.nextId++}`, createdAt: new Date() };
+          this.movements.push(row);
+          undo.push(() => this.movements.splice(this.movements.indexOf(row), 1));
+          return row;
+        },
+      },
+    };
+    return client as unknown as TransactionClient;
+  }
+}
+
+// One checkout per entry, all started at once, each in its own transaction like POST /api/orders
+function checkoutInParallel(db: MemoryDatabase, lines: StockLine[], count = PARALLEL_CHECKOUTS) {
+  return Promise.allSettled(Array.from({ length: count }, () => db.transaction((tx) => reserveStock(tx, lines))));
+}
+
+function assertOnlyStockErrors(results: PromiseSettledResult<unknown>[]) {
+  for (const result of results) {
+    if (result.status === "rejected") assert.ok(result.reason instanceof InsufficientStockError, String(result.reason));
+  }
+}
+
+function succeeded(results: PromiseSettledResult<unknown>[]) {
+  return results.filter((r) => r.status === "fulfilled").length;
+}
+
+function sales(db: MemoryDatabase, productId: string) {
+  return db.movements.filter((m) => m.productId === productId && m.type === "sale").length;
+}
+
+describe("reserveStock under concurrency", () => {
+  test("only one checkout gets the last unit", async () => {
+    const db = new MemoryDatabase();
+    const product = db.createProduct({ stock: 1 });
+
+    const results = await checkoutInParallel(db, [{ productId: product.id, quantity: 1 }]);
+
+    assertOnlyStockErrors(results);
+    assert.equal(succeeded(results), 1);
+    assert.equal(db.products.get(product.id)?.stock, 0);
+    assert.equal(sales(db, product.id), 1);
+  });
+
+  test("variant stock limits winners and keeps the product total in step", async () => {
+    const db = new MemoryDatabase();
+    const product = db.createProduct({ stock: 2, variantStock: [2] });
+    const variant = product.variants[0];
+
+    const results = await checkoutInParallel(db, [{ productId: product.id, variantId: variant.id, quantity: 1 }]);
+
+    assertOnlyStockErrors(results);
+    assert.equal(succeeded(results), 2);
+    assert.equal(db.variants.get(variant.id)?.stock, 0);
+    assert.equal(db.products.get(product.id)?.stock, 0);
+  });
+
+  test("a short line rolls back the other lines of the same order", async () => {
+    const db = new MemoryDatabase();
+    const first = db.createProduct({ stock: 1 });
+    const second = db.createProduct({ stock: 1 });
+
+    const results = await checkoutInParallel(db, [
+      { productId: first.id, quantity: 1 },
+      { productId: second.id, quantity: 1 },
+    ]);
+
+    assertOnlyStockErrors(results);
+    assert.equal(succeeded(results), 1);
+    for (const id of [first.id, second.id]) {
+      assert.equal(db.products.get(id)?.stock, 0);
+      assert.equal(sales(db, id), 1);
+    }
+  });
+
+  test("stock never goes negative when orders ask for more than one unit", async () => {
+    const db = new MemoryDatabase();
+    const product = db.createProduct({ stock: 5 });
+
+    const results = await checkoutInParallel(db, [{ productId: product.id, quantity: 2 }]);
+
+    assertOnlyStockErrors(results);
+    assert.equal(succeeded(results), 2);
+    assert.equal(db.products.get(product.id)?.stock, 1);
+  });
+});
@@ -0,0 +1,564 @@
+import type { InventoryMovement as InventoryMovementRow, Prisma } from "@prisma/client";
+import prisma, { runTransaction } from "./db";
+import { isoDate } from "./rows";
+import { globalSingleton } from "./singleton";
+import type {
+  AdjustStockInput,
+  InventoryMovement,
+  InventoryMovementType,
+  LowStockAlert,
+  Product,
+} from "../types/product";
+
+/**
+ * lib/inventory.ts
+ * Stock adjustments shared by checkout, order cancellation, refunds and manual edits,
+ * plus the inventory ledger and low-stock alerts.
+ *
+ * Functions take the transactional client from runTransaction() so stock changes
+ * commit or roll back together with the order change that caused them.
+ *
+ * Checkout reserves stock with a conditional decrement (`stock >= quantity` in the
+ * same UPDATE), so two concurrent orders can never both take the last unit and
+ * stock never goes negative. Variant lines are limited by the variant's stock and
+ * move Product.stock (the sum of its variants) by the same amount.
+ *
+ * Every change to tracked stock is also appended to the InventoryMovement ledger
+ * (sale, cancellation, refund, adjustment, restock) with the order, actor and reason,
+ * so the stock columns can be reconciled against it (reconcileStock). The ledger is
+ * never updated or deleted from.
+ *
+ * When a product's stock drops to or below its lowStockThreshold, a LowStockAlert is
+ * returned to the caller, which passes it to notifyLowStock() once its transaction
+ * has committed; listeners subscribe with onLowStock().
+ */
+
+export type TransactionClient = Prisma.TransactionClient;
+
+export interface StockLine {
+  productId: string;
+  /** ordered ProductVariant, if any */
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ShortStockItem {
+  productId: string;
+  variantId?: string;
+  name?: string;
+  requested: number;
+  available: number;
+}
+
+/** Who moved stock and why; recorded on every ledger entry */
+export interface MovementContext {
+  type: InventoryMovementType;
+  orderId?: string | null;
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+/** Stock column vs. ledger balance for one product or variant (see reconcileStock) */
+export interface StockDrift {
+  productId: string;
+  variantId: string | null;
+  stock: number;
+  ledger: number;
+  movements: number;
+  drift: number;
+}
+
+/**
+ * Raised when some lines cannot be reserved. Throwing it inside runTransaction()
+ * rolls back the whole order. `items` lists every short line and is safe to return
+ * to the client.
+ */
+export class InsufficientStockError extends Error {
+  public status = 409;
+  public code = "INSUFFICIENT_STOCK" as const;
+  public items: ShortStockItem[];
+
+  constructor(items: ShortStockItem[]) {
+    super(
+      `Insufficient stock for ${items
+        .map((i) => `${i.name ?? i.productId} (requested ${i.requested}, available ${i.available})`)
+        .join(", ")}.`
+    );
+    this.name = "InsufficientStockError";
+    this.items = items;
+  }
+}
+
+/**
+ * Error raised for invalid manual stock changes.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class InventoryError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 422) {
+    super(message);
+    this.name = "InventoryError";
+    this.status = status;
+  }
+}
+
+/* ---------------------------- Low-stock alerts ---------------------------- */
+
+export type LowStockListener = (alert: LowStockAlert) => void | Promise<void>;
+
+function getListeners(): Set<LowStockListener> {
+  return globalSingleton("lowStockListeners", () => new Set<LowStockListener>());
+}
+
+/**
+ * onLowStock
+ * Subscribe to low-stock alerts (e.g. to email purchasing). Returns an unsubscribe function.
+ */
+export function onLowStock(listener: LowStockListener) {
+  getListeners().add(listener);
+  return () => {
+    getListeners().delete(listener);
+  };
+}
+
+/**
+ * notifyLowStock
+ * Hand alerts to every listener. Call it after the transaction that produced the
+ * alerts has committed; a failing listener is logged and does not affect the others.
+ */
+export function notifyLowStock(alerts: LowStockAlert[]) {
+  for (const alert of alerts) {
+    for (const listener of getListeners()) {
+      Promise.resolve()
+        .then(() => listener(alert))
+        .catch((err) => console.error(`Low-stock listener failed for product ${alert.productId}`, err));
+    }
+  }
+}
+
+/** Alert when a change of `delta` units took Product.stock from above the threshold to at or below it */
+function lowStockCrossing(
+  product: { id: string; name: string; stock?: number | null; lowStockThreshold?: number | null } | null,
+  delta: number,
+  type: InventoryMovementType
+): LowStockAlert | null {
+  if (!product || typeof product.stock !== "number" || typeof product.lowStockThreshold !== "number") return null;
+  const before = product.stock - delta;
+  if (before <= product.lowStockThreshold || product.stock > product.lowStockThreshold) return null;
+  return {
+    productId: product.id,
+    name: product.name,
+    stock: product.stock,
+    threshold: product.lowStockThreshold,
+    movementType: type,
+  };
+}
+
+/* --------------------------------- Ledger -------------------------------- */
+
+/** An InventoryMovement row as the app's InventoryMovement (see lib/rows) */
+function toInventoryMovement(row: InventoryMovementRow): InventoryMovement {
+  return { ...row, createdAt: isoDate(row.createdAt) };
+}
+
+/**
+ * Append a movement for a line whose stock has just changed by `quantity` units.
+ * Returns the entry and the low-stock alert it caused, if any.
+ */
+async function recordMovement(
+  tx: TransactionClient,
+  line: Pick<StockLine, "productId" | "variantId">,
+  quantity: number,
+  context: MovementContext
+): Promise<{ movement: InventoryMovement; alert: LowStockAlert | null }> {
+  const product = await tx.product.findUnique({
+    where: { id: line.productId },
+    select: { id: true, name: true, stock: true, lowStockThreshold: true },
+  });
+  let stockAfter: number | null = product?.stock ?? null;
+  if (line.variantId) {
+    const variant = await tx.productVariant.findUnique({ where: { id: line.variantId }, select: { stock: true } });
+    stockAfter = variant?.stock ?? null;
+  }
+
+  const row = await tx.inventoryMovement.create({
+    data: {
+      productId: line.productId,
+      variantId: line.variantId ?? null,
+      type: context.type,
+      quantity,
+      stockAfter,
+      orderId: context.orderId ?? null,
+      actorId: context.actorId ?? null,
+      reason: context.reason ?? null,
+    },
+  });
+
+  // A variant change moves the aggregate by the same amount
+  return { movement: toInventoryMovement(row), alert: lowStockCrossing(product, quantity, context.type) };
+}
+
+/**
+ * listStockMovements
+ * Ledger entries for a product (optionally one variant), newest first.
+ */
+export async function listStockMovements(
+  productId: string,
+  { variantId, limit = 100 }: { variantId?: string; limit?: number } = {}
+): Promise<InventoryMovement[]> {
+  const rows = await prisma.inventoryMovement.findMany({
+    where: { productId, ...(variantId ? { variantId } : {}) },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return rows.map(toInventoryMovement);
+}
+
+/**
+ * openingStockMovements
+ * Ledger entries for the stock a product is created with, for a nested
+ * `inventoryMovements: { create }` on product creation.
+ */
+export function openingStockMovements(
+  product: Pick<Product, "stock" | "variants">,
+  actorId?: string
+): Omit<InventoryMovement, "id" | "productId" | "createdAt">[] {
+  const tracked =
+    product.variants && product.variants.length > 0
+      ? product.variants.map((v) => ({ variantId: v.id, stock: v.stock }))
+      : [{ variantId: null, stock: product.stock }];
+
+  return tracked
+    .filter((t): t is { variantId: string | null; stock: number } => typeof t.stock === "number" && t.stock > 0)
+    .map((t) => ({
+      variantId: t.variantId,
+      type: "restock" as const,
+      quantity: t.stock,
+      stockAfter: t.stock,
+      actorId: actorId ?? null,
+      reason: "Initial stock",
+    }));
+}
+
+/* ----------------------------- Stock changes ----------------------------- */
+
+/**
+ * Keep Product.stock (the sum of its variants) in step with a variant change.
+ * Products that do not track an aggregate (stock is null) are left alone.
+ */
+async function adjustAggregateStock(tx: TransactionClient, productId: string, delta: number) {
+  await tx.product.updateMany({
+    where: { id: productId, stock: { not: null } },
+    data: { stock: delta >= 0 ? { increment: delta } : { decrement: -delta } },
+  });
+}
+
+type TakeResult = { status: "taken" } | { status: "untracked" } | { status: "short"; item: ShortStockItem };
+
+/**
+ * Conditionally take `quantity` units for one line: from the variant (and the
+ * product's aggregate) for variant lines, otherwise from the product.
+ */
+async function takeStock(tx: TransactionClient, { productId, variantId, quantity }: StockLine): Promise<TakeResult> {
+  if (variantId) {
+    const { count } = await tx.productVariant.updateMany({
+      where: { id: variantId, productId, stock: { gte: quantity } },
+      data: { stock: { decrement: quantity } },
+    });
+    if (count > 0) {
+      await adjustAggregateStock(tx, productId, -quantity);
+      return { status: "taken" };
+    }
+
+    // Nothing updated: either the variant does not track stock or there is not enough
+    const variant = await tx.productVariant.findUnique({
+      where: { id: variantId },
+      select: { id: true, name: true, sku: true, stock: true },
+    });
+    if (variant && typeof variant.stock !== "number") return { status: "untracked" };
+    return {
+      status: "short",
+      item: {
+        productId,
+        variantId,
+        name: variant?.name ?? variant?.sku ?? undefined,
+        requested: quantity,
+        available: Math.max(0, variant?.stock ?? 0),
+      },
+    };
+  }
+
+  const { count } = await tx.product.updateMany({
+    where: { id: productId, stock: { gte: quantity } },
+    data: { stock: { decrement: quantity } },
+  });
+  if (count > 0) return { status: "taken" };
+
+  // Nothing updated: either stock is not tracked or there is not enough of it
+  const product = await tx.product.findUnique({
+    where: { id: productId },
+    select: { id: true, name: true, stock: true },
+  });
+  if (product && typeof product.stock !== "number") return { status: "untracked" };
+  return {
+    status: "short",
+    item: {
+      productId,
+      name: product?.name,
+      requested: quantity,
+      available: Math.max(0, product?.stock ?? 0),
+    },
+  };
+}
+
+/** Return units for one line. Returns false when the line does not track stock. */
+async function putStock(tx: TransactionClient, line: StockLine) {
+  if (line.variantId) {
+    const { count } = await tx.productVariant.updateMany({
+      where: { id: line.variantId, stock: { not: null } },
+      data: { stock: { increment: line.quantity } },
+    });
+    if (count > 0) await adjustAggregateStock(tx, line.productId, line.quantity);
+    return count > 0;
+  }
+
+  const { count } = await tx.product.updateMany({
+    where: { id: line.productId, stock: { not: null } },
+    data: { stock: { increment: line.quantity } },
+  });
+  return count > 0;
+}
+
+/**
+ * reserveStock
+ * Atomically take stock for every line. Each decrement only applies while enough
+ * stock is left - on the variant for variant lines, otherwise on the product.
+ * Anything that does not track stock (stock is null) is not limited. Quantities for
+ * the same product/variant are combined and recorded as 'sale' movements.
+ * Throws InsufficientStockError listing all short lines - call it inside
+ * runTransaction() so earlier decrements are rolled back with the order.
+ * Returns the low-stock alerts to pass to notifyLowStock() after commit.
+ */
+export async function reserveStock(
+  tx: TransactionClient,
+  lines: StockLine[],
+  context: Omit<MovementContext, "type"> = {}
+): Promise<LowStockAlert[]> {
+  const grouped = new Map<string, StockLine>();
+  for (const line of lines) {
+    const key = `${line.productId}::${line.variantId ?? ""}`;
+    const existing = grouped.get(key);
+    grouped.set(key, { ...line, quantity: (existing?.quantity ?? 0) + line.quantity });
+  }
+
+  const short: ShortStockItem[] = [];
+  const alerts: LowStockAlert[] = [];
+  for (const line of grouped.values()) {
+    const result = await takeStock(tx, line);
+    if (result.status === "short") {
+      short.push(result.item);
+    } else if (result.status === "taken" && short.length === 0) {
+      // No point writing the ledger once the transaction is going to roll back
+      const { alert } = await recordMovement(tx, line, -line.quantity, { ...context, type: "sale" });
+      if (alert) alerts.push(alert);
+    }
+  }
+
+  if (short.length > 0) {
+    throw new InsufficientStockError(short);
+  }
+  return alerts;
+}
+
+/**
+ * restockLine
+ * Return units to stock: to the variant (and the product's aggregate) for variant
+ * lines, otherwise to the product, and record the movement (a 'cancellation' or
+ * 'refund'). Anything that does not track stock is skipped.
+ */
+export async function restockLine(tx: TransactionClient, line: StockLine, context: MovementContext) {
+  if (await putStock(tx, line)) {
+    await recordMovement(tx, line, line.quantity, context);
+  }
+}
+
+/**
+ * adjustStock
+ * Manual stock change by a seller or admin: a 'restock' adds units, an 'adjustment'
+ * adds or removes them. Removals use the same guarded decrement as checkout, so a
+ * recount can never push stock below zero. Products sold in variants are adjusted
+ * per variant. Throws InventoryError for invalid changes and InsufficientStockError
+ * when removing more than is in stock.
+ */
+export async function adjustStock(input: AdjustStockInput, actorId?: string) {
+  const { productId, variantId, type, quantity, reason } = input;
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new InventoryError("quantity must be a non-zero integer.");
+  }
+  if (type === "restock" && quantity < 0) {
+    throw new InventoryError("A restock must add stock; use an adjustment to remove units.");
+  }
+
+  const { movement, alert } = await runTransaction(async (tx) => {
+    const product = await tx.product.findUnique({ where: { id: productId }, include: { variants: true } });
+    if (!product) throw new InventoryError("Product not found.", 404);
+    if (variantId && !product.variants.some((v: { id: string }) => v.id === variantId)) {
+      throw new InventoryError(`Variant not found: ${variantId}`, 404);
+    }
+    if (!variantId && product.variants.length > 0) {
+      throw new InventoryError("Stock of a product sold in variants is adjusted per variant; pass a variantId.");
+    }
+
+    const line: StockLine = { productId, variantId, quantity: Math.abs(quantity) };
+    if (quantity < 0) {
+      const result = await takeStock(tx, line);
+      if (result.status === "short") throw new InsufficientStockError([result.item]);
+      if (result.status === "untracked") throw new InventoryError("Stock is not tracked for this product.");
+    } else if (!(await putStock(tx, line))) {
+      throw new InventoryError("Stock is not tracked for this product.");
+    }
+
+    return recordMovement(tx, line, quantity, { type, actorId, reason });
+  });
+
+  if (alert) notifyLowStock([alert]);
+  return movement;
+}
+
+/**
+ * recordStockEdits
+ * Ledger entries for stock set directly through a product update (product form,
+ * variant edits): one 'adjustment' per product or variant whose stock changed,
+ * including removed variants. Returns the low-stock alert, if the edit caused one.
+ */
+export async function recordStockEdits(
+  tx: TransactionClient,
+  before: Pick<Product, "id" | "stock" | "variants">,
+  after: Pick<Product, "id" | "name" | "stock" | "lowStockThreshold" | "variants">,
+  context: Omit<MovementContext, "type"> = {}
+): Promise<LowStockAlert[]> {
+  const edits: { variantId: string | null; delta: number; stockAfter: number | null }[] = [];
+  const hadVariants = (before.variants?.length ?? 0) > 0 || (after.variants?.length ?? 0) > 0;
+
+  if (hadVariants) {
+    const oldById = new Map((before.variants ?? []).map((v) => [v.id, v.stock]));
+    const newById = new Map((after.variants ?? []).map((v) => [v.id, v.stock]));
+    for (const id of new Set([...oldById.keys(), ...newById.keys()])) {
+      const oldStock = oldById.get(id);
+      const newStock = newById.get(id);
+      const delta = (newStock ?? 0) - (oldStock ?? 0);
+      if (delta !== 0) edits.push({ variantId: id, delta, stockAfter: newStock ?? null });
+    }
+  } else if (typeof after.stock === "number" || typeof before.stock === "number") {
+    const delta = (after.stock ?? 0) - (before.stock ?? 0);
+    if (delta !== 0) edits.push({ variantId: null, delta, stockAfter: after.stock ?? null });
+  }
+
+  for (const edit of edits) {
+    await tx.inventoryMovement.create({
+      data: {
+        productId: before.id,
+        variantId: edit.variantId,
+        type: "adjustment",
+        quantity: edit.delta,
+        stockAfter: edit.stockAfter,
+        orderId: context.orderId ?? null,
+        actorId: context.actorId ?? null,
+        reason: context.reason ?? "Stock edited",
+      },
+    });
+  }
+
+  const delta = (after.stock ?? 0) - (before.stock ?? 0);
+  const alert = lowStockCrossing(after, delta, "adjustment");
+  return alert ? [alert] : [];
+}
+
+/* ---------------------------- Reconciliation ----------------------------- */
+
+/**
+ * reconcileStock
+ * Compare a product's stock columns (per variant, if it has any) with the ledger
+ * balance. With `fix`, stock that has a ledger is reset to the ledger balance, and
+ * stock that predates the ledger (no movements at all) is adopted by recording an
+ * opening 'adjustment'. Returns only the entries that drifted.
+ */
+export async function reconcileStock(
+  productId: string,
+  { fix = false, actorId }: { fix?: boolean; actorId?: string } = {}
+): Promise<StockDrift[]> {
+  return runTransaction(async (tx) => {
+    const product = await tx.product.findUnique({ where: { id: productId }, include: { variants: true } });
+    if (!product) throw new InventoryError("Product not found.", 404);
+
+    const balances = await tx.inventoryMovement.groupBy({
+      by: ["variantId"],
+      where: { productId },
+      _sum: { quantity: true },
+      _count: { _all: true },
+    });
+    const balanceOf = (variantId: string | null) => balances.find((b) => (b.variantId ?? null) === variantId);
+
+    const tracked: { variantId: string | null; stock: number | null }[] =
+      product.variants.length > 0
+        ? product.variants.map((v) => ({ variantId: v.id, stock: v.stock }))
+        : [{ variantId: null, stock: product.stock }];
+
+    const drifts: StockDrift[] = [];
+    for (const { variantId, stock } of tracked) {
+      if (typeof stock !== "number") continue;
+      const balance = balanceOf(variantId);
+      const ledger = balance?._sum.quantity ?? 0;
+      if (ledger === stock) continue;
+      drifts.push({
+        productId,
+        variantId,
+        stock,
+        ledger,
+        movements: balance?._count._all ?? 0,
+        drift: stock - ledger,
+      });
+    }
+
+    if (!fix) return drifts;
+
+    for (const d of drifts) {
+      if (d.movements === 0) {
+        await tx.inventoryMovement.create({
+          data: {
+            productId,
+            variantId: d.variantId,
+            type: "adjustment",
+            quantity: d.stock,
+            stockAfter: d.stock,
+            actorId: actorId ?? null,
+            reason: "Opening balance",
+          },
+        });
+      } else if (d.variantId) {
+        await tx.productVariant.update({ where: { id: d.variantId }, data: { stock: d.ledger } });
+        await adjustAggregateStock(tx, productId, d.ledger - d.stock);
+      } else {
+        await tx.product.update({ where: { id: productId }, data: { stock: d.ledger } });
+      }
+    }
+    return drifts;
+  });
+}
+
+/**
+ * listLowStockProducts
+ * Products currently at or below their lowStockThreshold, lowest stock first.
+ */
+export async function listLowStockProducts(): Promise<LowStockAlert[]> {
+  const products = await prisma.product.findMany({
+    where: { lowStockThreshold: { not: null }, stock: { not: null } },
+    select: { id: true, name: true, stock: true, lowStockThreshold: true },
+  });
+  return products
+    // stock and lowStockThreshold are never null here (see `where`)
+    .map((p) => ({ productId: p.id, name: p.name, stock: p.stock ?? 0, threshold: p.lowStockThreshold ?? 0 }))
+    .filter((alert) => alert.stock <= alert.threshold)
+    .sort((a, b) => a.stock - b.stock);
+}
@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { globalSingleton, setGlobalSingleton } from './singleton';
+
+/**
+ * lib/mail.ts
+ * Pluggable outbound mail used for account emails (password reset, verification).
+ *
+ * - getMailTransport() returns the configured transport (MAIL_TRANSPORT=console|file).
+ * - setMailTransport() swaps in a different implementation (SMTP, a provider SDK,
+ *   or a test double) without touching the routes that send mail.
+ *
+ * Usage:
+ *   await getMailTransport().send({ to, subject, text });
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/** Default sender when a message does not specify one */
+export const MAIL_FROM = process.env.MAIL_FROM || 'ShopFlux <no-reply@shopflux.example>';
+
+/**
+ * Writes messages to the server log. Handy for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    // eslint-disable-next-line no-console
+    console.info(
+      `[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`
+    );
+  }
+}
+
+/**
+ * Writes each message to its own file so links can be opened from disk.
+ * Defaults to <cwd>/data/mail, overridable with MAIL_FILE_DIR.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'data', 'mail')) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+    const contents = [
+      `From: ${message.from ?? MAIL_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+      '',
+    ].join('\n');
+    await fs.writeFile(path.join(this.dir, fileName), contents, 'utf-8');
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  switch ((process.env.MAIL_TRANSPORT || 'console').toLowerCase()) {
+    case 'file':
+      return new FileMailTransport();
+    case 'console':
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+/**
+ * getMailTransport
+ * Returns the active transport, creating the configured default on first use.
+ */
+export function getMailTransport(): MailTransport {
+  return globalSingleton('mailTransport', createDefaultTransport);
+}
+
+/**
+ * setMailTransport
+ * Replace the active transport (e.g. with an SMTP implementation or a test double).
+ */
+export function setMailTransport(transport: MailTransport) {
+  setGlobalSingleton('mailTransport', transport);
+}
+
+/**
+ * appUrl
+ * Build an absolute link into the storefront for use in emails.
+ */
+export function appUrl(pathname: string) {
+  const base = process.env.APP_BASE_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  return new URL(pathname, base).toString();
+}
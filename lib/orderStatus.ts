@@ -0,0 +1,170 @@
+import type { Order as OrderRow } from "@prisma/client";
+import type { Order, OrderStatus, UpdateOrderStatusInput } from "../types/order";
+import { isoDate, optional } from "./rows";
+
+/**
+ * lib/orderStatus.ts
+ * Server-side state machine for OrderStatus.
+ *
+ *   pending ──► processing ──► shipped ──► delivered
+ *      │            │             │            │
+ *      └──► cancelled ◄┘          └──► refunded ◄┘
+ *               └──────► refunded
+ *
+ * - processing means payment was received, so it stamps isPaid/paidAt
+ * - delivered stamps isDelivered/deliveredAt
+ * - shipped records tracking number and carrier
+ * - refunded is terminal and only reachable for paid orders
+ *
+ * Re-sending the current status is allowed and only updates tracking details and notes.
+ */
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  "pending",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+];
+
+/** Legal moves out of each status */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+};
+
+/**
+ * Error raised for illegal or inconsistent status changes.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class OrderStatusError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = "OrderStatusError";
+    this.status = status;
+  }
+}
+
+export type OrderStatusSnapshot = Pick<
+  Order,
+  "status" | "isPaid" | "paidAt" | "isDelivered" | "deliveredAt" | "trackingNumber" | "shippingCarrier" | "shippedAt"
+>;
+
+/** The status fields of an Order row (see lib/rows) */
+export function toStatusSnapshot(order: OrderRow): OrderStatusSnapshot {
+  return {
+    status: order.status,
+    isPaid: order.isPaid,
+    paidAt: isoDate(order.paidAt),
+    isDelivered: order.isDelivered,
+    deliveredAt: isoDate(order.deliveredAt),
+    trackingNumber: optional(order.trackingNumber),
+    shippingCarrier: optional(order.shippingCarrier),
+    shippedAt: isoDate(order.shippedAt),
+  };
+}
+
+/** Fields written to the order when a status change is applied */
+export type OrderStatusPatch = Partial<
+  Pick<
+    Order,
+    | "status"
+    | "isPaid"
+    | "paidAt"
+    | "isDelivered"
+    | "deliveredAt"
+    | "trackingNumber"
+    | "shippingCarrier"
+    | "shippedAt"
+    | "notes"
+  >
+>;
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * canTransition
+ * True when moving from `from` to `to` is a legal lifecycle step.
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * planStatusTransition
+ * Validate a status change against the current order and compute the fields to write.
+ * Throws OrderStatusError for illegal moves or contradictory flags.
+ */
+export function planStatusTransition(
+  order: OrderStatusSnapshot,
+  input: Omit<UpdateOrderStatusInput, "orderId">,
+  now = new Date()
+): OrderStatusPatch {
+  const from = order.status;
+  const to = input.status;
+
+  if (!isOrderStatus(to)) {
+    throw new OrderStatusError(`Unknown order status '${String(to)}'.`, 400);
+  }
+  if (from !== to && !canTransition(from, to)) {
+    throw new OrderStatusError(`Cannot move order from '${from}' to '${to}'.`);
+  }
+
+  const nowIso = now.toISOString();
+  const patch: OrderStatusPatch = { status: to };
+
+  // Payment flags: processing and everything after it implies a paid order
+  const mustBePaid = to === "processing" || to === "shipped" || to === "delivered" || to === "refunded";
+  if (to === "refunded" && !order.isPaid) {
+    throw new OrderStatusError("Only paid orders can be refunded.");
+  }
+  if (mustBePaid) {
+    if (input.isPaid === false) {
+      throw new OrderStatusError(`An order in '${to}' must be paid.`, 422);
+    }
+    if (!order.isPaid) {
+      patch.isPaid = true;
+      patch.paidAt = input.paidAt ?? order.paidAt ?? nowIso;
+    }
+  } else if (input.isPaid === true && !order.isPaid) {
+    throw new OrderStatusError("Mark an order paid by moving it to 'processing'.", 422);
+  }
+
+  // Delivery flags: only delivered (and a refund after delivery) carries isDelivered
+  if (to === "delivered") {
+    if (input.isDelivered === false) {
+      throw new OrderStatusError("A delivered order must have isDelivered set.", 422);
+    }
+    if (!order.isDelivered) {
+      patch.isDelivered = true;
+      patch.deliveredAt = input.deliveredAt ?? nowIso;
+    }
+  } else if (input.isDelivered === true && !order.isDelivered) {
+    throw new OrderStatusError("Mark an order delivered by moving it to 'delivered'.", 422);
+  }
+
+  // Tracking details can be recorded when shipping and corrected afterwards
+  if (input.trackingNumber !== undefined || input.shippingCarrier !== undefined) {
+    if (to !== "shipped" && to !== "delivered") {
+      throw new OrderStatusError("Tracking details can only be set on shipped or delivered orders.", 422);
+    }
+    if (input.trackingNumber !== undefined) patch.trackingNumber = input.trackingNumber;
+    if (input.shippingCarrier !== undefined) patch.shippingCarrier = input.shippingCarrier;
+  }
+  if (to === "shipped" && from !== "shipped") {
+    patch.shippedAt = nowIso;
+  }
+
+  if (input.notes !== undefined) patch.notes = input.notes;
+
+  return patch;
+}
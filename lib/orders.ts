@@ -0,0 +1,269 @@
+import crypto from "crypto";
+import prisma from "./db";
+import { normalizeEmail } from "./users";
+import { canAccessUser } from "./authz";
+import { canTransition, OrderStatusError, planStatusTransition, toStatusSnapshot } from "./orderStatus";
+import type { PaymentWebhookEvent } from "./payments";
+import { PRICE_TOLERANCE } from "./pricing";
+import { findRefundByProviderId, refundOrder } from "./refunds";
+import { fromJson, toJson } from "./rows";
+import type { PaymentResult, PayOrderInput } from "../types/order";
+import type { User } from "../types/user";
+
+/**
+ * lib/orders.ts
+ * Order helpers shared by the /api/orders routes.
+ *
+ * Guest checkout: orders placed without an account have no userId and are tied to a
+ * contactEmail instead. A guest finds the order again with its orderNumber plus that
+ * email. Once the same address belongs to a verified account, its guest orders are
+ * claimed into the account (userId is set) and show up in the normal order list.
+ *
+ * Payment: markOrderPaid() applies a captured PaymentResult (see lib/payments) and
+ * moves the order from pending to processing. applyPaymentEvent() does the same for
+ * asynchronous provider webhooks, and records refunds made at the provider through
+ * lib/refunds.
+ */
+
+/** Unambiguous alphabet for order numbers (no 0/O, 1/I/L) */
+const ORDER_NUMBER_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const ORDER_NUMBER_LENGTH = 8;
+export const ORDER_NUMBER_PREFIX = "SF-";
+
+/** Relations returned with a single order */
+export const ORDER_INCLUDE = {
+  items: {
+    include: { product: true },
+  },
+  user: {
+    select: { id: true, firstName: true, lastName: true, email: true },
+  },
+};
+
+/**
+ * canManageOrder
+ * Whether a caller may act on an order (pay, cancel): its owner or an admin, or for
+ * guest orders anyone who knows the order's contact email.
+ */
+export function canManageOrder(
+  actor: Pick<User, "id" | "role"> | null,
+  order: { userId?: string | null; contactEmail?: string | null },
+  email?: string | null
+) {
+  if (actor && canAccessUser(actor, order.userId)) return true;
+  if (order.userId) return false;
+  return !!email && !!order.contactEmail && normalizeEmail(email) === normalizeEmail(order.contactEmail);
+}
+
+/**
+ * generateOrderNumber
+ * Random customer-facing reference such as "SF-7K2M9Q4X". Random rather than
+ * sequential so order numbers cannot be enumerated through the guest lookup.
+ */
+export function generateOrderNumber() {
+  const bytes = crypto.randomBytes(ORDER_NUMBER_LENGTH);
+  let out = "";
+  for (const b of bytes) out += ORDER_NUMBER_ALPHABET[b % ORDER_NUMBER_ALPHABET.length];
+  return `${ORDER_NUMBER_PREFIX}${out}`;
+}
+
+/** Canonical form of a user-typed order number (case and surrounding space ignored) */
+export function normalizeOrderNumber(orderNumber: string) {
+  return orderNumber.trim().toUpperCase();
+}
+
+/**
+ * findGuestOrder
+ * Look up an order by order number and contact email. Both must match; returns null
+ * otherwise so callers cannot tell a wrong email from an unknown order number.
+ */
+export async function findGuestOrder(orderNumber: string, email: string) {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber: normalizeOrderNumber(orderNumber) },
+    include: { items: { include: { product: true } } },
+  });
+  if (!order || !order.contactEmail) return null;
+  if (normalizeEmail(order.contactEmail) !== normalizeEmail(email)) return null;
+  return order;
+}
+
+/**
+ * claimGuestOrders
+ * Attach every guest order placed with the user's email to their account.
+ * Only verified addresses may claim, otherwise registering with someone else's
+ * email would expose their orders. Returns the number of orders claimed.
+ */
+export async function claimGuestOrders(user: Pick<User, "id" | "email" | "emailVerified">): Promise<number> {
+  if (user.emailVerified !== true) return 0;
+  const result = await prisma.order.updateMany({
+    where: { userId: null, contactEmail: normalizeEmail(user.email) },
+    data: { userId: user.id },
+  });
+  return result.count;
+}
+
+/**
+ * markOrderPaid
+ * Store a successful PaymentResult on the order, set isPaid/paidAt and move it to
+ * processing. Re-applying the same transaction is a no-op, so callers (the pay
+ * route, provider webhooks) can safely retry. Throws OrderStatusError when the
+ * order is missing, already paid by another transaction, or no longer payable.
+ */
+export async function markOrderPaid({ orderId, paymentResult }: PayOrderInput) {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) throw new OrderStatusError("Order not found.", 404);
+
+  if (order.isPaid) {
+    const current = fromJson<PaymentResult>(order.paymentResult);
+    if (current?.transactionId && current.transactionId === paymentResult.transactionId) {
+      return prisma.order.findUnique({ where: { id: orderId }, include: ORDER_INCLUDE });
+    }
+    throw new OrderStatusError("Order is already paid.");
+  }
+
+  const patch = planStatusTransition(toStatusSnapshot(order), {
+    status: "processing",
+    isPaid: true,
+    paidAt: paymentResult.paidAt,
+  });
+
+  // Conditional update so a concurrent payment or cancellation cannot be overwritten
+  const { count } = await prisma.order.updateMany({
+    where: { id: order.id, status: order.status, isPaid: false },
+    data: { ...patch, paymentResult: toJson(paymentResult) },
+  });
+  if (count === 0) {
+    throw new OrderStatusError("Order changed while recording the payment. Reload and try again.");
+  }
+
+  return prisma.order.findUnique({ where: { id: orderId }, include: ORDER_INCLUDE });
+}
+
+/**
+ * What happened to a webhook event:
+ * - applied:  the order was updated
+ * - ignored:  nothing to do (stale, replayed or irrelevant for the order's state)
+ * - deferred: arrived before an event it depends on; the provider should retry later
+ * - rejected: contradicts the order (e.g. a payment for another intent or amount); not
+ *             applied, and a wrong amount is kept on the order's paymentResult for
+ *             reconciliation
+ */
+export type PaymentEventOutcome = "applied" | "ignored" | "deferred" | "rejected";
+
+/**
+ * applyPaymentEvent
+ * Apply a verified provider webhook event to its order. Events are checked against
+ * the order's current state rather than trusted blindly, so replays and events that
+ * arrive out of order (a failure after the success, a second refund) are ignored.
+ * A payment only marks the order paid when it is for the order's open intent (the
+ * transactionId and provider the pay route stored) and its amount and currency match.
+ * Refunds are recorded as OrderRefunds by refundOrder() (lib/refunds), so running
+ * totals, restocking and the move to 'refunded' work as for refunds issued here.
+ * The raw payload is kept in PaymentResult.raw for reconciliation.
+ */
+export async function applyPaymentEvent(provider: string, event: PaymentWebhookEvent): Promise<PaymentEventOutcome> {
+  const order = await prisma.order.findUnique({ where: { id: event.orderId } });
+  if (!order) return "ignored";
+
+  const current = fromJson<PaymentResult>(order.paymentResult) ?? {};
+  const paymentResult: PaymentResult = {
+    ...current,
+    provider,
+    transactionId: event.transactionId ?? current.transactionId,
+    currency: event.currency ?? current.currency,
+    raw: event.raw,
+  };
+
+  switch (event.type) {
+    case "payment.succeeded": {
+      if (order.isPaid || order.status !== "pending") return "ignored";
+      // Left untouched: the open intent may still be paid for through the pay route
+      if (!event.transactionId || event.transactionId !== current.transactionId || provider !== current.provider) {
+        console.warn(
+          `Payment event ${event.id} for order ${order.id} is for ${provider} ${event.transactionId}; open intent is ${current.provider} ${current.transactionId}`
+        );
+        return "rejected";
+      }
+      const currency = (order.currency ?? "USD").toUpperCase();
+      if (
+        typeof event.amount !== "number" ||
+        Math.abs(event.amount - Number(order.totalPrice)) > PRICE_TOLERANCE ||
+        event.currency?.toUpperCase() !== currency
+      ) {
+        console.warn(
+          `Payment event ${event.id} for order ${order.id} is ${event.amount} ${event.currency}; expected ${order.totalPrice} ${currency}`
+        );
+        await prisma.order.updateMany({
+          where: { id: order.id, status: "pending", isPaid: false },
+          data: { paymentResult: toJson({ ...paymentResult, amount: event.amount, status: "amount_mismatch" }) },
+        });
+        return "rejected";
+      }
+      await markOrderPaid({
+        orderId: order.id,
+        paymentResult: {
+          ...paymentResult,
+          amount: event.amount,
+          status: "succeeded",
+          paidAt: event.createdAt,
+        },
+      });
+      return "applied";
+    }
+
+    case "payment.failed": {
+      if (order.isPaid || order.status !== "pending") return "ignored";
+      // A failure for an older intent must not overwrite a newer attempt
+      if (current.transactionId && event.transactionId && current.transactionId !== event.transactionId) {
+        return "ignored";
+      }
+      const { count } = await prisma.order.updateMany({
+        where: { id: order.id, status: "pending", isPaid: false },
+        data: { paymentResult: toJson({ ...paymentResult, status: "failed" }) },
+      });
+      return count > 0 ? "applied" : "ignored";
+    }
+
+    case "refund.succeeded": {
+      if (!order.isPaid) {
+        // Refund seen before the payment it refunds: let the provider redeliver it
+        return order.status === "pending" ? "deferred" : "ignored";
+      }
+      if (!canTransition(order.status, "refunded")) return "ignored";
+
+      // Refunds issued through refundOrder() come back here too; they are already recorded
+      const providerRefundId = event.refundId ?? event.id;
+      if (await findRefundByProviderId(order.id, providerRefundId)) return "ignored";
+      // One of ours may still be waiting for its provider id
+      if (await prisma.orderRefund.findFirst({ where: { orderId: order.id, status: "pending" } })) {
+        return "deferred";
+      }
+
+      const remaining = Number(order.totalPrice) - Number(order.refundedAmount ?? 0);
+      const wrongCurrency = !!event.currency && event.currency.toUpperCase() !== (order.currency ?? "USD").toUpperCase();
+      if (wrongCurrency || (typeof event.amount === "number" && event.amount - remaining > PRICE_TOLERANCE)) {
+        console.warn(`Refund event ${event.id} for order ${order.id} does not fit its refundable balance ${remaining}`);
+        return "rejected";
+      }
+
+      // A refund of the whole balance refunds (and restocks) every remaining unit;
+      // smaller ones are amount-only and accumulate in refundedAmount
+      const whole = typeof event.amount !== "number" || remaining - event.amount <= PRICE_TOLERANCE;
+      const reason = "Refunded at the payment provider";
+      await refundOrder(order.id, whole ? { reason } : { amount: event.amount, reason }, undefined, { providerRefundId });
+      return "applied";
+    }
+
+    case "dispute.created": {
+      if (!order.isPaid) return "ignored";
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { paymentResult: toJson({ ...paymentResult, status: "disputed" }) },
+      });
+      return "applied";
+    }
+
+    default:
+      return "ignored";
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+
+/**
+ * lib/password.ts
+ * Password hashing with Node's built-in scrypt (no bcrypt/argon2 dependency).
+ *
+ * Hashes are stored in a self-describing format so the work factor can be raised
+ * later without breaking existing credentials:
+ *
+ *   $scrypt$n=16384,r=8,p=1$<salt base64url>$<hash base64url>
+ *
+ * Legacy unsalted SHA-256 hex digests (the original /api/users format) are still
+ * accepted by verifyPassword() and reported as needing a rehash so callers can
+ * upgrade them in place after a successful login.
+ */
+
+export interface ScryptParams {
+  /** CPU/memory cost, must be a power of two */
+  n: number;
+  /** block size */
+  r: number;
+  /** parallelization */
+  p: number;
+}
+
+export interface PasswordVerification {
+  valid: boolean;
+  /** true when the stored hash uses a legacy format or weaker parameters than current */
+  needsRehash: boolean;
+}
+
+/** Minimum accepted length for new passwords */
+export const MIN_PASSWORD_LENGTH = 8;
+
+const ALGORITHM = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const LEGACY_SHA256_PATTERN = /^[a-f0-9]{64}$/i;
+
+/**
+ * Current hashing parameters. The cost can be tuned per environment with
+ * PASSWORD_SCRYPT_N (e.g. lower in tests, higher on beefy production hosts).
+ */
+export const PASSWORD_HASH_PARAMS: ScryptParams = {
+  n: Number(process.env.PASSWORD_SCRYPT_N) || 16384,
+  r: Number(process.env.PASSWORD_SCRYPT_R) || 8,
+  p: Number(process.env.PASSWORD_SCRYPT_P) || 1,
+};
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      keyLength,
+      { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r * params.p },
+      (err, derivedKey) => (err ? reject(err) : resolve(derivedKey))
+    );
+  });
+}
+
+function encodeParams(params: ScryptParams) {
+  return `n=${params.n},r=${params.r},p=${params.p}`;
+}
+
+function decodeParams(encoded: string): ScryptParams | null {
+  const values: Record<string, number> = {};
+  for (const part of encoded.split(',')) {
+    const [key, value] = part.split('=');
+    const n = Number(value);
+    if (!key || !Number.isInteger(n) || n <= 0) return null;
+    values[key] = n;
+  }
+  if (!values.n || !values.r || !values.p) return null;
+  return { n: values.n, r: values.r, p: values.p };
+}
+
+/**
+ * hashPassword
+ * Hash a password with a random salt and the current parameters.
+ */
+export async function hashPassword(password: string, params: ScryptParams = PASSWORD_HASH_PARAMS): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, params, KEY_LENGTH);
+  return `$${ALGORITHM}$${encodeParams(params)}$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+// Stand-in hash of a random password, checked when there is no stored hash
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * verifyPassword
+ * Check a password against a stored hash (current or legacy format) in constant time.
+ * Without a stored hash (e.g. an unknown email) the password is still run through
+ * scrypt against a dummy hash, so the response time does not reveal whether the
+ * account exists.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string | null | undefined
+): Promise<PasswordVerification> {
+  if (!storedHash) {
+    dummyHash ??= hashPassword(crypto.randomBytes(SALT_BYTES).toString('base64url'));
+    await verifyPassword(password, await dummyHash);
+    return { valid: false, needsRehash: false };
+  }
+
+  if (LEGACY_SHA256_PATTERN.test(storedHash)) {
+    const candidate = crypto.createHash('sha256').update(password).digest();
+    const stored = Buffer.from(storedHash, 'hex');
+    const valid = crypto.timingSafeEqual(candidate, stored);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, algorithm, encodedParams, encodedSalt, encodedKey] = storedHash.split('$');
+  const params = algorithm === ALGORITHM && encodedParams ? decodeParams(encodedParams) : null;
+  if (!params || !encodedSalt || !encodedKey) return { valid: false, needsRehash: false };
+
+  const expected = Buffer.from(encodedKey, 'base64url');
+  const candidate = await deriveKey(password, Buffer.from(encodedSalt, 'base64url'), params, expected.length);
+  const valid = candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+
+  return { valid, needsRehash: valid && isWeakerThanCurrent(params) };
+}
+
+function isWeakerThanCurrent(params: ScryptParams) {
+  return (
+    params.n < PASSWORD_HASH_PARAMS.n ||
+    params.r < PASSWORD_HASH_PARAMS.r ||
+    params.p < PASSWORD_HASH_PARAMS.p
+  );
+}
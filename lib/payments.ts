@@ -0,0 +1,280 @@
+import crypto from "crypto";
+import type { PaymentResult } from "../types/order";
+import { globalSingleton } from "./singleton";
+
+/**
+ * lib/payments.ts
+ * Pluggable payment providers used to take payment for orders.
+ *
+ * A provider follows the usual intent flow:
+ *   1. createIntent()  - reserve a payment for the order total, returns an intent id
+ *   2. confirmIntent() - capture it, returns the PaymentResult stored on the order
+ *   3. refund()        - return some or all of a captured payment
+ * cancelIntent() voids an intent that was never confirmed (e.g. the order was cancelled).
+ *
+ * Providers are looked up by name (PaymentResult.provider) in a registry, so a
+ * Stripe or PayPal implementation can be registered without touching the routes.
+ * The built-in "manual" provider settles everything locally and is the default,
+ * which keeps the whole checkout flow usable offline. It takes no money, so shoppers
+ * can only use it when PAYMENTS_MANUAL_ENABLED=true, in any environment; otherwise
+ * only admins can use it, e.g. to record an offline payment.
+ *
+ * Usage:
+ *   const provider = getPaymentProvider("manual");
+ *   const intent = await provider.createIntent({ orderId, amount, currency });
+ *   const result = await provider.confirmIntent({ intentId: intent.id, orderId, amount, currency });
+ */
+
+export type PaymentIntentStatus = "requires_confirmation" | "succeeded" | "failed" | "cancelled";
+
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  /** opaque value a browser SDK needs to confirm the intent client-side */
+  clientSecret?: string;
+  raw?: unknown;
+}
+
+export interface CreatePaymentIntentInput {
+  orderId: string;
+  amount: number;
+  currency: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ConfirmPaymentIntentInput {
+  intentId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  /** provider-specific details collected at checkout (card token, payer id, ...) */
+  paymentDetails?: Record<string, unknown>;
+}
+
+export interface RefundPaymentInput {
+  /** PaymentResult.transactionId of the captured payment */
+  transactionId: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  id: string;
+  provider: string;
+  status: "succeeded" | "pending" | "failed";
+  amount: number;
+  currency: string;
+  createdAt: string; // ISO date-time
+  raw?: unknown;
+}
+
+export type PaymentWebhookEventType = "payment.succeeded" | "payment.failed" | "refund.succeeded" | "dispute.created";
+
+/**
+ * Provider-neutral webhook event. Providers translate their own payloads into this
+ * shape (see PaymentProvider.parseWebhookEvent); `raw` keeps the original payload.
+ */
+export interface PaymentWebhookEvent {
+  /** provider's event id, used to process each event once */
+  id: string;
+  type: PaymentWebhookEventType;
+  orderId: string;
+  transactionId?: string;
+  /** provider's id for the refund (refund events) */
+  refundId?: string;
+  amount?: number;
+  currency?: string;
+  /** ISO date-time the provider created the event */
+  createdAt: string;
+  raw: unknown;
+}
+
+export interface PaymentProvider {
+  /** registry key, stored as PaymentResult.provider */
+  readonly name: string;
+  createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+  confirmIntent(input: ConfirmPaymentIntentInput): Promise<PaymentResult>;
+  refund(input: RefundPaymentInput): Promise<RefundResult>;
+  /** void an unconfirmed intent so it can no longer be captured */
+  cancelIntent(intentId: string): Promise<void>;
+  /** translate a (signature-checked) webhook body; defaults to parseWebhookEvent() */
+  parseWebhookEvent?(payload: unknown): PaymentWebhookEvent;
+}
+
+/**
+ * Error raised by providers and the payment flow.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class PaymentError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 402) {
+    super(message);
+    this.name = "PaymentError";
+    this.status = status;
+  }
+}
+
+/** Card number that the manual provider always declines (mirrors common test cards) */
+export const MANUAL_DECLINE_CARD = "4000000000000002";
+
+/**
+ * Settles payments locally without talking to a gateway. Intents and refunds
+ * succeed immediately, except that confirming with
+ * `paymentDetails: { cardNumber: MANUAL_DECLINE_CARD }` or `{ simulateFailure: true }`
+ * is declined, so failure paths can be exercised too.
+ */
+export class ManualPaymentProvider implements PaymentProvider {
+  readonly name = "manual";
+
+  async createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent> {
+    return {
+      id: `manual_pi_${crypto.randomUUID()}`,
+      provider: this.name,
+      orderId: input.orderId,
+      amount: input.amount,
+      currency: input.currency,
+      status: "requires_confirmation",
+    };
+  }
+
+  async confirmIntent(input: ConfirmPaymentIntentInput): Promise<PaymentResult> {
+    const details = input.paymentDetails ?? {};
+    if (details.simulateFailure === true || details.cardNumber === MANUAL_DECLINE_CARD) {
+      throw new PaymentError("Payment was declined.");
+    }
+    return {
+      provider: this.name,
+      transactionId: input.intentId,
+      status: "succeeded",
+      amount: input.amount,
+      currency: input.currency,
+      paidAt: new Date().toISOString(),
+    };
+  }
+
+  async refund(input: RefundPaymentInput): Promise<RefundResult> {
+    return {
+      id: `manual_re_${crypto.randomUUID()}`,
+      provider: this.name,
+      status: "succeeded",
+      amount: input.amount,
+      currency: input.currency,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  async cancelIntent(_intentId: string): Promise<void> {
+    // Nothing was reserved, so there is nothing to release
+  }
+}
+
+/**
+ * isManualPaymentEnabled
+ * Whether shoppers may pay with the manual provider. Off unless PAYMENTS_MANUAL_ENABLED
+ * is "true" (or "1"), so a deployment never accepts unpaid orders by accident.
+ */
+export function isManualPaymentEnabled() {
+  const flag = (process.env.PAYMENTS_MANUAL_ENABLED || "").trim().toLowerCase();
+  return flag === "true" || flag === "1";
+}
+
+function getRegistry(): Map<string, PaymentProvider> {
+  return globalSingleton("paymentProviders", () => {
+    const registry = new Map<string, PaymentProvider>();
+    if (isManualPaymentEnabled()) {
+      const manual = new ManualPaymentProvider();
+      registry.set(manual.name, manual);
+    }
+    return registry;
+  });
+}
+
+/** Provider used when a request does not name one (PAYMENT_PROVIDER, default "manual") */
+export function getDefaultPaymentProviderName() {
+  return (process.env.PAYMENT_PROVIDER || "manual").toLowerCase();
+}
+
+/**
+ * registerPaymentProvider
+ * Add or replace a provider (e.g. a Stripe implementation or a test double).
+ */
+export function registerPaymentProvider(provider: PaymentProvider) {
+  getRegistry().set(provider.name.toLowerCase(), provider);
+}
+
+/**
+ * getPaymentProvider
+ * Look up a provider by name, falling back to the configured default.
+ * `allowManual` also resolves "manual" where it is not registered; use it only for
+ * admins and for payments already recorded on an order (refunds, voids).
+ * Throws PaymentError (400) for unknown names.
+ */
+export function getPaymentProvider(name?: string | null, opts: { allowManual?: boolean } = {}): PaymentProvider {
+  const key = (name || getDefaultPaymentProviderName()).toLowerCase();
+  const provider = getRegistry().get(key) ?? (opts.allowManual && key === "manual" ? new ManualPaymentProvider() : undefined);
+  if (!provider) {
+    throw new PaymentError(`Unknown payment provider '${key}'.`, 400);
+  }
+  return provider;
+}
+
+/** Names of all registered providers */
+export function listPaymentProviders() {
+  return Array.from(getRegistry().keys());
+}
+
+const WEBHOOK_EVENT_TYPES: readonly PaymentWebhookEventType[] = [
+  "payment.succeeded",
+  "payment.failed",
+  "refund.succeeded",
+  "dispute.created",
+];
+
+/**
+ * parseWebhookEvent
+ * Read the generic webhook format used by the manual provider:
+ *   { id, type, created, data: { orderId, transactionId?, refundId?, amount?, currency? } }
+ * where `created` is a unix timestamp in seconds or an ISO date-time.
+ * Throws PaymentError (400) for malformed or unsupported events.
+ */
+export function parseWebhookEvent(payload: unknown): PaymentWebhookEvent {
+  if (typeof payload !== "object" || payload === null) {
+    throw new PaymentError("Webhook payload must be a JSON object.", 400);
+  }
+  const p = payload as Record<string, unknown>;
+  const data = (typeof p.data === "object" && p.data !== null ? p.data : {}) as Record<string, unknown>;
+
+  if (typeof p.id !== "string" || !p.id) {
+    throw new PaymentError("Webhook event is missing 'id'.", 400);
+  }
+  if (!WEBHOOK_EVENT_TYPES.includes(p.type as PaymentWebhookEventType)) {
+    throw new PaymentError(`Unsupported webhook event type '${String(p.type)}'.`, 400);
+  }
+  if (typeof data.orderId !== "string" || !data.orderId) {
+    throw new PaymentError("Webhook event is missing 'data.orderId'.", 400);
+  }
+
+  const created =
+    typeof p.created === "number" ? new Date(p.created * 1000) : typeof p.created === "string" ? new Date(p.created) : new Date();
+  if (Number.isNaN(created.getTime())) {
+    throw new PaymentError("Invalid webhook 'created' timestamp.", 400);
+  }
+
+  return {
+    id: p.id,
+    type: p.type as PaymentWebhookEventType,
+    orderId: data.orderId,
+    transactionId: typeof data.transactionId === "string" ? data.transactionId : undefined,
+    refundId: typeof data.refundId === "string" ? data.refundId : undefined,
+    amount: typeof data.amount === "number" ? data.amount : undefined,
+    currency: typeof data.currency === "string" ? data.currency : undefined,
+    createdAt: created.toISOString(),
+    raw: payload,
+  };
+}
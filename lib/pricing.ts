@@ -0,0 +1,193 @@
+import type { Price, Product, ProductVariant } from "../types/product";
+import { calculateOrderTotals } from "../types/order";
+import { findVariant, variantLabel, variantOptionsRecord } from "./variants";
+
+/**
+ * lib/pricing.ts
+ * Server-side price authority for orders.
+ *
+ * Order lines are always priced from the catalog - the variant price when the
+ * variant has one, otherwise the product price, preferring Price.salePrice over
+ * Price.value. Client-supplied prices are only used to detect a stale cart: if the
+ * client's expected total disagrees with the catalog, the order is rejected with a
+ * line-by-line breakdown instead of silently charging a different amount.
+ */
+
+/** Totals within half a cent are considered equal (floating point noise) */
+export const PRICE_TOLERANCE = 0.005;
+
+/**
+ * storeCurrency
+ * Currency of every catalog price, and so of every order (STORE_CURRENCY, default
+ * "USD"). Prices are stored as plain numbers, so the catalog has a single currency.
+ */
+export function storeCurrency() {
+  return (process.env.STORE_CURRENCY || "USD").trim().toUpperCase();
+}
+
+export interface OrderLineInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  /** unit price the client saw, if it sent one */
+  price?: number;
+}
+
+export interface PricedOrderLine {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  /** option values of the ordered variant, stored on OrderItem.variant */
+  variant?: Record<string, string>;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  clientUnitPrice?: number;
+}
+
+export interface PriceMismatchLine {
+  productId: string;
+  variantId?: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  clientUnitPrice?: number;
+  clientLineTotal?: number;
+  /** clientLineTotal - lineTotal (negative means the client expected to pay less) */
+  difference?: number;
+}
+
+export interface PriceMismatchDetails {
+  code: "PRICE_MISMATCH";
+  expectedTotal: number;
+  totals: ReturnType<typeof calculateOrderTotals>;
+  lines: PriceMismatchLine[];
+}
+
+/**
+ * Error raised when the client's expected total disagrees with catalog pricing.
+ * `details` is safe to return to the client as-is.
+ */
+export class PriceMismatchError extends Error {
+  public status = 422;
+  public details: PriceMismatchDetails;
+
+  constructor(details: PriceMismatchDetails) {
+    super("Order total does not match current prices.");
+    this.name = "PriceMismatchError";
+    this.details = details;
+  }
+}
+
+function roundToTwo(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * priceValue
+ * Effective amount of a numeric or rich price (sale price wins when present).
+ */
+export function priceValue(price: number | Price | null | undefined): number | undefined {
+  if (price === undefined || price === null) return undefined;
+  if (typeof price === "number") return Number.isFinite(price) ? price : undefined;
+  if (typeof price.salePrice === "number" && Number.isFinite(price.salePrice)) return price.salePrice;
+  if (typeof price.value === "number" && Number.isFinite(price.value)) return price.value;
+  return undefined;
+}
+
+/**
+ * resolveUnitPrice
+ * Catalog unit price for a product, or for one of its variants.
+ */
+export function resolveUnitPrice(
+  product: Pick<Product, "price">,
+  variant?: Pick<ProductVariant, "price"> | null
+): number {
+  return priceValue(variant?.price) ?? priceValue(product.price) ?? 0;
+}
+
+/**
+ * priceOrderLines
+ * Price each requested line from the catalog, using the variant's price when the
+ * line names a variant.
+ */
+export function priceOrderLines(
+  items: OrderLineInput[],
+  productsById: Map<string, Pick<Product, "id" | "name" | "price" | "sku" | "variants">>
+): PricedOrderLine[] {
+  return items.map((item) => {
+    const product = productsById.get(item.productId);
+    if (!product) throw new Error(`Product not found: ${item.productId}`);
+    const variant = item.variantId ? findVariant(product, item.variantId) : undefined;
+    if (item.variantId && !variant) throw new Error(`Variant not found: ${item.variantId}`);
+    const unitPrice = roundToTwo(resolveUnitPrice(product, variant));
+    return {
+      productId: item.productId,
+      variantId: variant?.id,
+      sku: variant?.sku ?? product.sku,
+      variant: variant ? variantOptionsRecord(variant) : undefined,
+      name: variant ? `${product.name} (${variantLabel(variant)})` : product.name,
+      quantity: item.quantity,
+      unitPrice,
+      lineTotal: roundToTwo(unitPrice * item.quantity),
+      clientUnitPrice: item.price,
+    };
+  });
+}
+
+/**
+ * orderTotals
+ * Totals for priced lines. Tax from an inclusive rule (lib/tax) is already part of
+ * the prices, so it is reported in taxPrice but not added to the total.
+ */
+export function orderTotals(lines: PricedOrderLine[], shippingPrice = 0, taxPrice = 0, taxInclusive = false) {
+  const totals = calculateOrderTotals(
+    lines.map((l) => ({ quantity: l.quantity, price: l.unitPrice })),
+    shippingPrice,
+    taxInclusive ? 0 : taxPrice
+  );
+  return { ...totals, taxPrice: roundToTwo(taxPrice) };
+}
+
+/**
+ * assertExpectedTotal
+ * Compute catalog totals for the priced lines and compare them with the total the
+ * client expects to pay. Throws PriceMismatchError on disagreement.
+ */
+export function assertExpectedTotal(
+  lines: PricedOrderLine[],
+  expectedTotal: number,
+  shippingPrice = 0,
+  taxPrice = 0,
+  taxInclusive = false
+) {
+  const totals = orderTotals(lines, shippingPrice, taxPrice, taxInclusive);
+
+  if (Math.abs(totals.totalPrice - expectedTotal) <= PRICE_TOLERANCE) {
+    return totals;
+  }
+
+  throw new PriceMismatchError({
+    code: "PRICE_MISMATCH",
+    expectedTotal,
+    totals,
+    lines: lines.map((l) => {
+      const line: PriceMismatchLine = {
+        productId: l.productId,
+        variantId: l.variantId,
+        name: l.name,
+        quantity: l.quantity,
+        unitPrice: l.unitPrice,
+        lineTotal: l.lineTotal,
+      };
+      if (l.clientUnitPrice !== undefined) {
+        line.clientUnitPrice = l.clientUnitPrice;
+        line.clientLineTotal = roundToTwo(l.clientUnitPrice * l.quantity);
+        line.difference = roundToTwo(line.clientLineTotal - l.lineTotal);
+      }
+      return line;
+    }),
+  });
+}
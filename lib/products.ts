@@ -0,0 +1,607 @@
+// lib/products.ts
+import type { Prisma } from "@prisma/client";
+import type { Dimensions, Product, ProductImage, ProductVariant, VariantOption } from "../types/product";
+import { fromJson, isoDate, optional, toJson } from "./rows";
+import { globalSingleton, setGlobalSingleton } from "./singleton";
+import { sumVariantStock } from "./variants";
+import { collectionFor, getStorageDriver, newRecordId, type RecordCollection } from "./storage";
+
+/**
+ * Shared product storage used by /api/products and /api/products/[id].
+ *
+ * Products live in the store selected by DATA_STORE (lib/storage): the database by
+ * default, or a JSON file (data/products.json) / process memory for development
+ * and tests. Only the database store keeps variants in their own table and writes
+ * stock changes to the inventory ledger (lib/inventory).
+ */
+
+// Utility: basic slugify
+export const slugify = (str: string) =>
+  str
+    .toString()
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\w\-]+/g, "")
+    .replace(/\-\-+/g, "-");
+
+const WEIGHT_UNITS = ["kg", "g", "lb", "oz"] as const;
+const DIMENSION_UNITS = ["cm", "mm", "m", "in"] as const;
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+function isVariantOption(value: unknown): value is VariantOption {
+  const option = value as VariantOption | null;
+  return !!option && typeof option.name === "string" && typeof option.value === "string";
+}
+
+// Validate product payload for POST (or PUT/PATCH when `partial` is set)
+export function validateProductPayload(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): { valid: true; value: Partial<Product> } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+  const value: Partial<Product> = {};
+
+  if (!body || typeof body !== "object") {
+    return { valid: false, errors: ["Invalid JSON payload"] };
+  }
+
+  const { name, price, description, image, stock, lowStockThreshold, category, slug, isActive, variants, weight, dimensions } =
+    body as Record<string, unknown>;
+
+  if (partial && name === undefined) {
+    // name unchanged
+  } else if (!name || typeof name !== "string" || name.trim().length < 1) {
+    errors.push("name is required and must be a non-empty string");
+  } else {
+    value.name = name.trim();
+  }
+
+  if (partial && price === undefined) {
+    // price unchanged
+  } else if (price === undefined || price === null || isNaN(Number(price))) {
+    errors.push("price is required and must be a number");
+  } else {
+    // allow numeric price or a Price-like object, but convert to a number for legacy compatibility
+    const n = Number(price);
+    value.price = n;
+  }
+
+  if (description && typeof description === "string") {
+    value.description = description.trim();
+  }
+
+  if (image && typeof image === "string") {
+    value.image = image.trim();
+  }
+
+  if (stock !== undefined) {
+    const s = Number(stock);
+    if (stock === null || !Number.isInteger(s) || s < 0) {
+      errors.push("stock must be a non-negative integer");
+    } else {
+      value.stock = s;
+    }
+  }
+
+  if (lowStockThreshold !== undefined) {
+    const t = Number(lowStockThreshold);
+    if (lowStockThreshold === null || !Number.isInteger(t) || t < 0) {
+      errors.push("lowStockThreshold must be a non-negative integer");
+    } else {
+      value.lowStockThreshold = t;
+    }
+  }
+
+  if (category && typeof category === "string") {
+    value.category = category.trim();
+  }
+
+  if (slug && typeof slug === "string") {
+    value.slug = slugify(slug);
+  }
+
+  if (isActive !== undefined) {
+    if (typeof isActive !== "boolean") {
+      errors.push("isActive must be a boolean");
+    } else {
+      value.isActive = isActive;
+    }
+  }
+
+  // Used for shipping rates (lib/shipping)
+  if (weight !== undefined && weight !== null) {
+    const { value: amount, unit } = weight as Record<string, unknown>;
+    const n = Number(amount);
+    if (!Number.isFinite(n) || n <= 0) {
+      errors.push("weight.value must be a positive number");
+    } else if (unit !== undefined && !isOneOf(WEIGHT_UNITS, unit)) {
+      errors.push(`weight.unit must be one of ${WEIGHT_UNITS.join(", ")}`);
+    } else {
+      value.weight = { value: n, unit: unit ?? "kg" };
+    }
+  }
+
+  if (dimensions !== undefined && dimensions !== null) {
+    const { unit, ...given } = dimensions as Record<string, unknown>;
+    const sides = (["height", "width", "depth"] as const).map((key) => Number(given[key]));
+    if (sides.some((n) => !Number.isFinite(n) || n <= 0)) {
+      errors.push("dimensions.height, width and depth must be positive numbers");
+    } else if (unit !== undefined && !isOneOf(DIMENSION_UNITS, unit)) {
+      errors.push(`dimensions.unit must be one of ${DIMENSION_UNITS.join(", ")}`);
+    } else {
+      value.dimensions = { height: sides[0], width: sides[1], depth: sides[2], unit: unit ?? "cm" };
+    }
+  }
+
+  if (variants !== undefined) {
+    const parsed = validateVariants(variants, errors);
+    if (parsed) {
+      value.variants = parsed;
+      // Product.stock mirrors the variants whenever they track stock
+      const total = sumVariantStock(parsed);
+      if (total !== undefined) value.stock = total;
+    }
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+  return { valid: true, value };
+}
+
+// Validate the `variants` array of a product payload, pushing problems onto `errors`
+function validateVariants(variants: unknown, errors: string[]): ProductVariant[] | null {
+  if (!Array.isArray(variants)) {
+    errors.push("variants must be an array");
+    return null;
+  }
+
+  const result: ProductVariant[] = [];
+  const seen = new Set<string>();
+  variants.forEach((entry: unknown, idx) => {
+    if (!entry || typeof entry !== "object") {
+      errors.push(`variants[${idx}] must be an object`);
+      return;
+    }
+    const v = entry as Record<string, unknown>;
+    const variant: ProductVariant = { id: typeof v.id === "string" && v.id ? v.id : newRecordId() };
+    if (seen.has(variant.id)) errors.push(`variants[${idx}].id is duplicated`);
+    seen.add(variant.id);
+
+    if (v.sku !== undefined) {
+      if (typeof v.sku !== "string") errors.push(`variants[${idx}].sku must be a string`);
+      else variant.sku = v.sku.trim();
+    }
+    if (v.name !== undefined) {
+      if (typeof v.name !== "string") errors.push(`variants[${idx}].name must be a string`);
+      else variant.name = v.name.trim();
+    }
+    if (v.options !== undefined) {
+      const options: unknown = v.options;
+      if (!Array.isArray(options) || !options.every(isVariantOption)) {
+        errors.push(`variants[${idx}].options must be an array of { name, value } strings`);
+      } else {
+        variant.options = options.map((o: VariantOption) => ({ name: o.name.trim(), value: o.value.trim() }));
+      }
+    }
+    if (v.price !== undefined && v.price !== null) {
+      const n = Number(v.price);
+      if (isNaN(n) || n < 0) errors.push(`variants[${idx}].price must be a non-negative number`);
+      else variant.price = n;
+    }
+    if (v.stock !== undefined && v.stock !== null) {
+      const s = Number(v.stock);
+      if (!Number.isInteger(s) || s < 0) errors.push(`variants[${idx}].stock must be a non-negative integer`);
+      else variant.stock = s;
+    }
+    result.push(variant);
+  });
+  return result;
+}
+
+// Shape of a variant row for Prisma's ProductVariant model
+export function toVariantData(variant: ProductVariant) {
+  return {
+    id: variant.id,
+    sku: variant.sku ?? null,
+    name: variant.name ?? null,
+    // plain copies: Prisma's Json input does not accept the VariantOption interface
+    options: (variant.options ?? []).map(({ name, value }) => ({ name, value })),
+    price: variant.price === undefined ? null : Number(variant.price),
+    stock: variant.stock ?? null,
+  };
+}
+
+// Shape of a gallery image row for Prisma's ProductImage model
+function toImageData(image: ProductImage, position: number) {
+  return {
+    id: image.id,
+    url: image.url,
+    alt: image.alt ?? null,
+    width: image.width ?? null,
+    height: image.height ?? null,
+    position: image.position ?? position,
+    metadata: image.metadata ?? undefined,
+  };
+}
+
+/** Relations loaded with every product row */
+const PRODUCT_INCLUDE = { variants: true, images: { orderBy: { position: "asc" as const } } };
+
+type ProductRow = Prisma.ProductGetPayload<{ include: typeof PRODUCT_INCLUDE }>;
+
+/** A Product row with its variants and images as the app's Product (see lib/rows) */
+function toProduct(row: ProductRow): Product {
+  return {
+    id: row.id,
+    name: row.name,
+    title: optional(row.title),
+    slug: optional(row.slug),
+    description: optional(row.description),
+    shortDescription: optional(row.shortDescription),
+    price: row.price,
+    compareAt: optional(row.compareAt),
+    image: optional(row.image),
+    images: row.images.map((image) => ({
+      id: image.id,
+      url: image.url,
+      alt: optional(image.alt),
+      width: optional(image.width),
+      height: optional(image.height),
+      position: image.position,
+      metadata: fromJson(image.metadata),
+    })),
+    category: optional(row.category),
+    tags: row.tags,
+    sku: optional(row.sku),
+    stock: optional(row.stock),
+    lowStockThreshold: optional(row.lowStockThreshold),
+    variants: row.variants.map((variant) => ({
+      id: variant.id,
+      sku: optional(variant.sku),
+      name: optional(variant.name),
+      options: fromJson<VariantOption[]>(variant.options) ?? [],
+      price: optional(variant.price),
+      stock: optional(variant.stock),
+      metadata: fromJson(variant.metadata),
+    })),
+    attributes: fromJson(row.attributes),
+    dimensions: fromJson<Dimensions>(row.dimensions),
+    weight: fromJson<Product["weight"]>(row.weight),
+    rating: optional(row.rating),
+    reviewsCount: row.reviewsCount,
+    isFeatured: row.isFeatured,
+    isActive: row.isActive,
+    metadata: fromJson(row.metadata),
+    vendorId: optional(row.vendorId),
+    createdAt: isoDate(row.createdAt),
+    updatedAt: isoDate(row.updatedAt),
+  };
+}
+
+/**
+ * Product columns for Prisma's Product model; variants and images are rows of their
+ * own. Fields left undefined are not written.
+ */
+function toProductData(product: Partial<Product>) {
+  return {
+    name: product.name,
+    title: product.title,
+    slug: product.slug,
+    description: product.description,
+    shortDescription: product.shortDescription,
+    price: typeof product.price === "object" ? product.price.value : product.price,
+    compareAt: product.compareAt,
+    image: product.image,
+    // the column holds one category; validateProductPayload only accepts strings
+    category: Array.isArray(product.category) ? product.category[0] : product.category,
+    tags: product.tags,
+    sku: product.sku,
+    stock: product.stock,
+    lowStockThreshold: product.lowStockThreshold,
+    attributes: toJson(product.attributes),
+    dimensions: toJson(product.dimensions),
+    weight: toJson(product.weight),
+    rating: typeof product.rating === "object" ? product.rating.average : product.rating,
+    reviewsCount: product.reviewsCount,
+    isFeatured: product.isFeatured,
+    isActive: product.isActive,
+    metadata: toJson(product.metadata),
+    vendorId: product.vendorId,
+  };
+}
+
+/* ---------------------------- Product stores ---------------------------- */
+
+/** Product fields the list can be sorted by */
+export const PRODUCT_SORT_FIELDS = ["createdAt", "updatedAt", "name", "price", "rating", "stock"] as const;
+
+export type ProductSortField = (typeof PRODUCT_SORT_FIELDS)[number];
+
+export function isProductSortField(value: unknown): value is ProductSortField {
+  return typeof value === "string" && (PRODUCT_SORT_FIELDS as readonly string[]).includes(value);
+}
+
+export interface ProductListQuery {
+  /** matched against name, description and category */
+  search?: string;
+  category?: string;
+  page: number;
+  limit: number;
+  sort: ProductSortField;
+  order: "asc" | "desc";
+}
+
+export interface ProductStore {
+  list(query: ProductListQuery): Promise<{ items: Product[]; total: number }>;
+  getById(id: string): Promise<Product | null>;
+  /** Products with any of `ids`, in no particular order; unknown ids are left out */
+  getByIds(ids: string[]): Promise<Product[]>;
+  /** `actorId` is recorded on the opening inventory movements */
+  create(product: Product, actorId?: string): Promise<Product>;
+  /** Stock changes are recorded in the inventory ledger as adjustments by `actorId` */
+  updateById(id: string, updates: Partial<Product>, actorId?: string): Promise<Product | null>;
+  deleteById(id: string): Promise<Product | null>;
+}
+
+/**
+ * Raised when a product's stock moved (e.g. a sale) while an update was writing it.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class ProductConflictError extends Error {
+  public status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductConflictError";
+  }
+}
+
+// Timestamps and ids are managed by the store
+function cleanUpdates(updates: Partial<Product>): Partial<Product> {
+  const { id, createdAt, ...data } = updates;
+  return { ...data, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Products in the database through lib/db, with variants in the ProductVariant
+ * table. The client is loaded on first use so the json and memory stores work
+ * without a generated Prisma client.
+ */
+export function createPrismaProductStore(): ProductStore {
+  const db = async () => (await import("./db")).default;
+  const include = PRODUCT_INCLUDE;
+
+  return {
+    async list({ search, category, page, limit, sort, order }) {
+      const prisma = await db();
+      const where: Prisma.ProductWhereInput = {};
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: "insensitive" } },
+          { description: { contains: search, mode: "insensitive" } },
+          { category: { contains: search, mode: "insensitive" } },
+        ];
+      }
+      if (category) {
+        where.category = category;
+      }
+
+      const [items, total] = await Promise.all([
+        prisma.product.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { [sort]: order },
+          include,
+        }),
+        prisma.product.count({ where }),
+      ]);
+      return { items: items.map(toProduct), total };
+    },
+
+    async getById(id) {
+      const row = await (await db()).product.findUnique({ where: { id }, include });
+      return row && toProduct(row);
+    },
+
+    async getByIds(ids) {
+      if (ids.length === 0) return [];
+      return (await db()).product.findMany({ where: { id: { in: ids } }, include }).then((rows) => rows.map(toProduct));
+    },
+
+    async create(product, actorId) {
+      const prisma = await db();
+      const { openingStockMovements } = await import("./inventory");
+      const row = await prisma.product.create({
+        data: {
+          ...toProductData(product),
+          id: product.id,
+          name: product.name,
+          shortDescription: product.shortDescription ?? null,
+          tags: product.tags ?? [],
+          createdAt: product.createdAt,
+          updatedAt: product.updatedAt,
+          variants: product.variants ? { create: product.variants.map(toVariantData) } : undefined,
+          images: product.images ? { create: product.images.map(toImageData) } : undefined,
+          // the ledger starts with the stock the product is created with
+          inventoryMovements: { create: openingStockMovements(product, actorId) },
+        },
+        include,
+      });
+      return toProduct(row);
+    },
+
+    async updateById(id, updates, actorId) {
+      const prisma = await db();
+      const { variants: payloadVariants, ...fields } = cleanUpdates(updates);
+      const { notifyLowStock, recordStockEdits } = await import("./inventory");
+
+      const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Stock is written as an absolute value: read it inside the transaction and only
+        // write while it still holds what was read, so a sale committing in between is
+        // not overwritten and the ledger delta below is taken against the same snapshot
+        const existing = await tx.product.findUnique({ where: { id }, include });
+        if (!existing) return null;
+        const stockChanged = () =>
+          new ProductConflictError("Stock changed while the product was being updated; reload it and try again.");
+
+        if (payloadVariants) {
+          // Variant ids come from the client: one that is not already this product's is a
+          // new variant and gets a fresh id, so a payload can never reach another product's row
+          const ownVariants = new Map(existing.variants.map((v) => [v.id, v]));
+          const variants = payloadVariants.map((v) => (ownVariants.has(v.id) ? v : { ...v, id: newRecordId() }));
+
+          // Replace the variant set: drop variants not in the payload, update or create the rest
+          await tx.productVariant.deleteMany({
+            where: { productId: id, id: { notIn: variants.map((v) => v.id) } },
+          });
+          for (const variant of variants) {
+            const { id: variantId, ...row } = toVariantData(variant);
+            const current = ownVariants.get(variantId);
+            if (current) {
+              const { count } = await tx.productVariant.updateMany({
+                where: { id: variantId, productId: id, stock: current.stock ?? null },
+                data: row,
+              });
+              if (count === 0) throw stockChanged();
+            } else {
+              await tx.productVariant.create({ data: { ...row, id: variantId, productId: id } });
+            }
+          }
+        }
+        if (fields.stock !== undefined) {
+          // Also locks the row, so nothing else moves its stock until this transaction ends
+          const { count } = await tx.product.updateMany({
+            where: { id, stock: existing.stock ?? null },
+            data: { stock: fields.stock },
+          });
+          if (count === 0) throw stockChanged();
+        }
+        const updated = toProduct(await tx.product.update({ where: { id }, data: toProductData(fields), include }));
+        const alerts = await recordStockEdits(tx, toProduct(existing), updated, { actorId });
+        return { updated, alerts };
+      });
+      if (!result) return null;
+      notifyLowStock(result.alerts);
+      return result.updated;
+    },
+
+    async deleteById(id) {
+      const prisma = await db();
+      const existing = await prisma.product.findUnique({ where: { id }, include });
+      if (!existing) return null;
+      await prisma.product.delete({ where: { id } });
+      return toProduct(existing);
+    },
+  };
+}
+
+// Value of a sortable field; Price and Rating objects sort by their number
+function sortValue(product: Product, field: ProductSortField): string | number | undefined {
+  const value = product[field];
+  if (typeof value === "object") return "value" in value ? value.value : value.average;
+  return value;
+}
+
+// Compare two product field values for sorting in memory (timestamps are ISO strings)
+function compareValues(a: string | number | undefined, b: string | number | undefined, order: "asc" | "desc") {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return order === "asc" ? -1 : 1;
+  if (b === undefined) return order === "asc" ? 1 : -1;
+
+  if (typeof a === "string" && typeof b === "string") {
+    return order === "asc" ? a.localeCompare(b) : b.localeCompare(a);
+  }
+  return order === "asc" ? Number(a) - Number(b) : Number(b) - Number(a);
+}
+
+/**
+ * Products in a json or memory collection (see lib/storage), variants inline.
+ */
+export function createCollectionProductStore(collection: RecordCollection<Product>): ProductStore {
+  return {
+    async list({ search, category, page, limit, sort, order }) {
+      let filtered = await collection.read();
+      if (search) {
+        const s = search.toLowerCase();
+        filtered = filtered.filter(
+          (p) =>
+            (p.name && p.name.toLowerCase().includes(s)) ||
+            (p.description && p.description.toLowerCase().includes(s)) ||
+            (typeof p.category === "string" && p.category.toLowerCase().includes(s)) ||
+            (Array.isArray(p.category) && p.category.join(" ").toLowerCase().includes(s))
+        );
+      }
+      if (category) {
+        filtered = filtered.filter((p) => (Array.isArray(p.category) ? p.category.includes(category) : p.category === category));
+      }
+
+      filtered.sort((a, b) => compareValues(sortValue(a, sort), sortValue(b, sort), order));
+
+      const start = (page - 1) * limit;
+      return { items: filtered.slice(start, start + limit), total: filtered.length };
+    },
+
+    async getById(id) {
+      return (await collection.read()).find((p) => p.id === id) ?? null;
+    },
+
+    async getByIds(ids) {
+      const wanted = new Set(ids);
+      return (await collection.read()).filter((p) => wanted.has(p.id));
+    },
+
+    async create(product) {
+      return collection.update((records) => {
+        records.set(product.id, product);
+        return product;
+      });
+    },
+
+    async updateById(id, updates) {
+      return collection.update((records) => {
+        const existing = records.get(id);
+        if (!existing) return null;
+        const updated = { ...existing, ...cleanUpdates(updates) };
+        records.set(id, updated);
+        return updated;
+      });
+    },
+
+    async deleteById(id) {
+      return collection.update((records) => {
+        const existing = records.get(id);
+        if (!existing) return null;
+        records.delete(id);
+        return existing;
+      });
+    },
+  };
+}
+
+function createDefaultProductStore(): ProductStore {
+  const driver = getStorageDriver();
+  return driver === "prisma"
+    ? createPrismaProductStore()
+    : createCollectionProductStore(collectionFor<Product>(driver, "products"));
+}
+
+/**
+ * getProductStore
+ * The configured product store (DATA_STORE, see lib/storage).
+ */
+export function getProductStore(): ProductStore {
+  return globalSingleton("productStore", createDefaultProductStore);
+}
+
+/**
+ * setProductStore
+ * Replace the active store (e.g. with a test double); pass null to go back to the
+ * configured one.
+ */
+export function setProductStore(store: ProductStore | null) {
+  setGlobalSingleton("productStore", store);
+}
@@ -0,0 +1,260 @@
+import type { OrderItem as OrderItemRow, OrderRefund as OrderRefundRow } from "@prisma/client";
+import prisma, { runTransaction } from "./db";
+import { ORDER_INCLUDE } from "./orders";
+import { canTransition, OrderStatusError, planStatusTransition, toStatusSnapshot } from "./orderStatus";
+import { PRICE_TOLERANCE } from "./pricing";
+import { getPaymentProvider, PaymentError } from "./payments";
+import { restockLine } from "./inventory";
+import { fromJson, isoDate, optional, toJson } from "./rows";
+import type { OrderRefund, PaymentResult, RefundOrderInput } from "../types/order";
+
+/**
+ * lib/refunds.ts
+ * Full and partial refunds for paid orders.
+ *
+ * A refund covers either specific order lines (orderItemId + quantity) or just an
+ * amount. Each one is recorded as an OrderRefund with amount, reason and the admin
+ * who issued it; OrderItem.refundedQuantity and Order.refundedAmount keep running
+ * totals. The order only moves to 'refunded' once refundedAmount reaches its total.
+ *
+ * A line refund returns the line's price plus its share of any tax charged on top
+ * (taxPrice pro-rated over items and shipping). The refund that returns the last
+ * unrefunded units also returns what is left of the balance - shipping, its tax and
+ * rounding - so refunding an order line by line refunds all of it.
+ *
+ * The refund is reserved first, then sent to the payment provider, then completed:
+ *   1. reserve  - guarded update of the running totals + a 'pending' OrderRefund
+ *   2. provider - refund() on the provider that captured the payment (skipped for
+ *                 orders paid offline, which have no transactionId)
+ *   3. complete - mark the refund 'succeeded', restock, flip the status if fully refunded
+ * A provider failure rolls the reservation back, so totals never count money that
+ * was not returned.
+ */
+
+/** An OrderRefund row as the app's OrderRefund (see lib/rows) */
+function toOrderRefund(row: OrderRefundRow): OrderRefund {
+  return {
+    id: row.id,
+    orderId: row.orderId,
+    amount: row.amount,
+    currency: row.currency,
+    reason: optional(row.reason),
+    items: fromJson<OrderRefund["items"]>(row.items) ?? [],
+    restock: row.restock,
+    status: row.status,
+    providerRefundId: optional(row.providerRefundId),
+    actorId: optional(row.actorId),
+    createdAt: isoDate(row.createdAt),
+  };
+}
+
+function roundToTwo(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * refundOrder
+ * Refund part or all of a paid order (see RefundOrderInput for the accepted shapes).
+ * Pass `providerRefundId` for a refund the provider has already made (e.g. one
+ * reported by webhook, see applyPaymentEvent in lib/orders): it is recorded without
+ * calling the provider again.
+ * Throws OrderStatusError for orders that cannot be refunded or invalid lines and
+ * amounts, and PaymentError when the provider rejects the refund.
+ * Returns the recorded refund and the updated order.
+ */
+export async function refundOrder(
+  orderId: string,
+  input: RefundOrderInput,
+  actorId?: string,
+  opts: { providerRefundId?: string } = {}
+) {
+  const order = await prisma.order.findUnique({ where: { id: orderId }, include: { items: true } });
+  if (!order) throw new OrderStatusError("Order not found.", 404);
+
+  if (!order.isPaid) {
+    throw new OrderStatusError("Only paid orders can be refunded.");
+  }
+  if (!canTransition(order.status, "refunded")) {
+    throw new OrderStatusError(`Orders in '${order.status}' cannot be refunded.`);
+  }
+
+  const total = Number(order.totalPrice);
+  const alreadyRefunded = Number(order.refundedAmount ?? 0);
+  const remaining = roundToTwo(total - alreadyRefunded);
+  // Cancelled orders were restocked when they were cancelled (lib/cancellations)
+  const restock = input.restock ?? order.status !== "cancelled";
+
+  // Tax added on top of the prices is returned with the lines it was charged on
+  const taxBase = Number(order.itemsPrice) + Number(order.shippingPrice ?? 0);
+  const taxRate = !order.taxInclusive && taxBase > 0 ? Number(order.taxPrice ?? 0) / taxBase : 0;
+
+  // Work out which lines (and how many units of each) this refund covers
+  const itemsById = new Map<string, OrderItemRow>(order.items.map((it: OrderItemRow) => [it.id, it]));
+  let lines: OrderRefund["items"];
+  if (input.items && input.items.length > 0) {
+    lines = input.items.map((req, idx) => {
+      const item = itemsById.get(req.orderItemId);
+      if (!item) {
+        throw new OrderStatusError(`Order item not found: ${req.orderItemId} (index ${idx}).`, 422);
+      }
+      const refundable = item.quantity - (item.refundedQuantity ?? 0);
+      if (req.quantity > refundable) {
+        throw new OrderStatusError(
+          `Cannot refund ${req.quantity} of item ${req.orderItemId}; only ${refundable} left to refund.`,
+          422
+        );
+      }
+      return {
+        orderItemId: item.id,
+        productId: item.productId,
+        variantId: item.variantId ?? undefined,
+        quantity: req.quantity,
+        amount: roundToTwo(Number(item.price) * req.quantity * (1 + taxRate)),
+      };
+    });
+  } else if (input.amount === undefined) {
+    // Whole-order refund: every unit not refunded yet, plus the remaining balance
+    lines = order.items
+      .filter((it: OrderItemRow) => it.quantity - (it.refundedQuantity ?? 0) > 0)
+      .map((it: OrderItemRow) => {
+        const quantity = it.quantity - (it.refundedQuantity ?? 0);
+        return {
+          orderItemId: it.id,
+          productId: it.productId,
+          variantId: it.variantId ?? undefined,
+          quantity,
+          amount: roundToTwo(Number(it.price) * quantity * (1 + taxRate)),
+        };
+      });
+  } else {
+    lines = [];
+  }
+
+  const unitsLeft = order.items.reduce((sum: number, it: OrderItemRow) => sum + it.quantity - (it.refundedQuantity ?? 0), 0);
+  if (lines.length > 0 && lines.reduce((sum, l) => sum + l.quantity, 0) === unitsLeft) {
+    // Last units: the rest of the balance (shipping, its tax, rounding) goes with them
+    const last = lines[lines.length - 1];
+    last.amount = roundToTwo(Math.max(0, last.amount + remaining - lines.reduce((sum, l) => sum + l.amount, 0)));
+  }
+
+  // Line refunds never ask for more than is left (earlier amount-only refunds count too)
+  const amount = roundToTwo(
+    input.amount ??
+      (input.items && input.items.length > 0 ? Math.min(lines.reduce((sum, l) => sum + l.amount, 0), remaining) : remaining)
+  );
+  if (amount <= 0) {
+    throw new OrderStatusError("Refund amount must be greater than zero.", 422);
+  }
+  if (amount - remaining > PRICE_TOLERANCE) {
+    throw new OrderStatusError(`Refund amount ${amount} exceeds the refundable balance ${remaining}.`, 422);
+  }
+
+  const currency = order.currency ?? "USD";
+
+  // 1. Reserve: the guard on refundedAmount stops two refunds from overlapping
+  const refund = await runTransaction(async (tx) => {
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, status: order.status, refundedAmount: order.refundedAmount ?? 0 },
+      data: { refundedAmount: roundToTwo(alreadyRefunded + amount) },
+    });
+    if (count === 0) {
+      throw new OrderStatusError("Order changed while preparing the refund. Reload and try again.");
+    }
+    for (const line of lines) {
+      await tx.orderItem.update({
+        where: { id: line.orderItemId },
+        data: { refundedQuantity: { increment: line.quantity } },
+      });
+    }
+    return tx.orderRefund.create({
+      data: {
+        orderId: order.id,
+        amount,
+        currency,
+        reason: input.reason ?? null,
+        items: lines,
+        restock,
+        status: "pending",
+        actorId: actorId ?? null,
+      },
+    });
+  });
+
+  // 2. Return the money through the provider that captured it
+  const payment = fromJson<PaymentResult>(order.paymentResult);
+  let providerRefundId: string | null = opts.providerRefundId ?? null;
+  try {
+    if (!opts.providerRefundId && payment?.provider && payment.transactionId) {
+      // Recorded payments may be manual ones an admin entered (see lib/payments)
+      const result = await getPaymentProvider(payment.provider, { allowManual: true }).refund({
+        transactionId: payment.transactionId,
+        amount,
+        currency,
+        reason: input.reason,
+      });
+      if (result.status === "failed") {
+        throw new PaymentError("The payment provider rejected the refund.");
+      }
+      providerRefundId = result.id;
+    }
+  } catch (err) {
+    await runTransaction(async (tx) => {
+      await tx.order.update({
+        where: { id: order.id },
+        data: { refundedAmount: { decrement: amount } },
+      });
+      for (const line of lines) {
+        await tx.orderItem.update({
+          where: { id: line.orderItemId },
+          data: { refundedQuantity: { decrement: line.quantity } },
+        });
+      }
+      await tx.orderRefund.update({ where: { id: refund.id }, data: { status: "failed" } });
+    });
+    throw err;
+  }
+
+  // 3. Complete: restock and close the order once everything is refunded
+  return runTransaction(async (tx) => {
+    const completed = await tx.orderRefund.update({
+      where: { id: refund.id },
+      data: { status: "succeeded", providerRefundId },
+    });
+
+    if (restock) {
+      for (const line of lines) {
+        await restockLine(tx, line, { type: "refund", orderId: order.id, actorId, reason: input.reason });
+      }
+    }
+
+    const current = await tx.order.findUnique({ where: { id: order.id } });
+    if (current && total - Number(current.refundedAmount ?? 0) <= PRICE_TOLERANCE && current.status !== "refunded") {
+      const patch = planStatusTransition(toStatusSnapshot(current), { status: "refunded" });
+      await tx.order.update({
+        where: { id: order.id },
+        data: { ...patch, paymentResult: toJson(payment && { ...payment, status: "refunded" }) },
+      });
+    }
+
+    const updated = await tx.order.findUnique({ where: { id: order.id }, include: ORDER_INCLUDE });
+    return { refund: toOrderRefund(completed), order: updated };
+  });
+}
+
+/**
+ * findRefundByProviderId
+ * The refund recorded for a provider refund id, if any.
+ */
+export async function findRefundByProviderId(orderId: string, providerRefundId: string): Promise<OrderRefund | null> {
+  const row = await prisma.orderRefund.findFirst({ where: { orderId, providerRefundId } });
+  return row && toOrderRefund(row);
+}
+
+/**
+ * listOrderRefunds
+ * Refunds recorded for an order, oldest first.
+ */
+export async function listOrderRefunds(orderId: string): Promise<OrderRefund[]> {
+  const rows = await prisma.orderRefund.findMany({ where: { orderId }, orderBy: { createdAt: "asc" } });
+  return rows.map(toOrderRefund);
+}
@@ -0,0 +1,41 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * lib/rows.ts
+ * Helpers for converting between Prisma rows and the shapes in types/.
+ *
+ * Rows carry Date timestamps, null for empty columns and Prisma.JsonValue for Json
+ * columns, while types/ uses ISO strings, optional fields and the app's own
+ * interfaces. Each database store maps the rows it returns with a to<Model>()
+ * function built from these helpers, and writes app objects to Json columns
+ * through toJson().
+ */
+
+/** ISO string of a DateTime column; undefined when it is NULL */
+export function isoDate(value: Date | null): string | undefined {
+  return value ? value.toISOString() : undefined;
+}
+
+/** A nullable column as an optional field */
+export function optional<T>(value: T | null): T | undefined {
+  return value ?? undefined;
+}
+
+/**
+ * A Json column read back as the app type it was written from. Json columns are
+ * only written through toJson(), so the stored shape is not checked again.
+ */
+export function fromJson<T>(value: Prisma.JsonValue | null): T | undefined {
+  return value === null ? undefined : (value as unknown as T);
+}
+
+/**
+ * An app object for a Json column. Interfaces such as ShippingAddress are plain JSON
+ * data but declare no index signature, so Prisma's InputJsonValue does not accept
+ * them as they are. null and undefined leave the column untouched (NULL on create).
+ */
+export function toJson(value: object): Prisma.InputJsonValue;
+export function toJson(value: object | null | undefined): Prisma.InputJsonValue | undefined;
+export function toJson(value: object | null | undefined): Prisma.InputJsonValue | undefined {
+  return value == null ? undefined : (value as Prisma.InputJsonValue);
+}
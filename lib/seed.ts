@@ -0,0 +1,120 @@
+import { generateFixtures, FIXTURE_PASSWORD, type FixtureOptions, type Fixtures } from "./fixtures";
+import { hashPassword } from "./password";
+import { getProductStore } from "./products";
+import { getStorageDriver, StorageConfigError } from "./storage";
+import { getUserStore } from "./users";
+import { UserRole } from "../types/user";
+import type { Order } from "../types/order";
+
+/**
+ * lib/seed.ts
+ * Load the generated fixtures (lib/fixtures) into the configured backend.
+ *
+ * Users and products go through getUserStore()/getProductStore(), so DATA_STORE
+ * decides where they land. Orders only exist in the database (see lib/storage): the
+ * full dataset needs DATA_STORE=prisma, and the json and memory backends can only be
+ * seeded `withoutOrders` (users and products alone).
+ *
+ * Records keep their generated ids: seeding twice leaves a single copy, and `reset`
+ * deletes the fixture records first so they are written fresh. Seeded orders are
+ * history; they do not take stock or write to the inventory ledger.
+ */
+
+export interface SeedOptions extends FixtureOptions {
+  /** delete existing fixture records (by id) before writing them again */
+  reset?: boolean;
+  /** leave the fixture orders out; the only way to seed DATA_STORE=json|memory */
+  withoutOrders?: boolean;
+  log?: (message: string) => void;
+}
+
+export interface SeedResult {
+  fixtures: Fixtures;
+  created: { users: number; products: number; orders: number };
+  /** records that already existed and were left alone */
+  skipped: number;
+}
+
+/**
+ * seedFixtures
+ * Generate the dataset for `options.seed` and write it to the configured stores.
+ */
+export async function seedFixtures(options: SeedOptions = {}): Promise<SeedResult> {
+  const log = options.log ?? (() => undefined);
+  const fixtures = generateFixtures(options);
+  const driver = getStorageDriver();
+  // Refuse before writing anything rather than leave a dataset without its orders
+  if (!options.withoutOrders && driver !== "prisma") {
+    throw new StorageConfigError(
+      `The fixtures include orders, which are only stored in the database: seed with DATA_STORE=prisma, ` +
+        `or pass withoutOrders (prisma/seed.ts --without-orders) to load only users and products into DATA_STORE=${driver}.`
+    );
+  }
+  const users = getUserStore();
+  const products = getProductStore();
+  const result: SeedResult = { fixtures, created: { users: 0, products: 0, orders: 0 }, skipped: 0 };
+
+  if (options.reset) {
+    // Orders first: their items keep ordered products from being deleted
+    if (driver === "prisma") {
+      const prisma = (await import("./db")).default;
+      await prisma.order.deleteMany({ where: { id: { in: fixtures.orders.map((o) => o.id!) } } });
+    }
+    for (const product of fixtures.products) await products.deleteById(product.id);
+    for (const user of fixtures.users) await users.deleteById(user.id);
+  }
+
+  const password = await hashPassword(FIXTURE_PASSWORD);
+  for (const user of fixtures.users) {
+    if (await users.getById(user.id)) {
+      result.skipped++;
+      continue;
+    }
+    await users.create({ ...user, password });
+    result.created.users++;
+  }
+  log(`users: ${result.created.users} created (password "${FIXTURE_PASSWORD}")`);
+
+  const admin = fixtures.users.find((u) => u.role === UserRole.ADMIN);
+  for (const product of fixtures.products) {
+    if (await products.getById(product.id)) {
+      result.skipped++;
+      continue;
+    }
+    await products.create(product, admin?.id);
+    result.created.products++;
+  }
+  log(`products: ${result.created.products} created`);
+
+  if (options.withoutOrders) {
+    log("orders: not seeded");
+    return result;
+  }
+
+  const prisma = (await import("./db")).default;
+  for (const order of fixtures.orders) {
+    if (await prisma.order.findUnique({ where: { id: order.id } })) {
+      result.skipped++;
+      continue;
+    }
+    await prisma.order.create({ data: toOrderData(order) });
+    result.created.orders++;
+  }
+  log(`orders: ${result.created.orders} created`);
+
+  return result;
+}
+
+// Nested create for an order with its items and refunds
+function toOrderData(order: Order): any {
+  const { items, refunds, user, ...fields } = order;
+  return {
+    ...fields,
+    items: {
+      create: items.map(({ product, ...item }) => item),
+    },
+    refunds: refunds?.length
+      ? { create: refunds.map(({ orderId, ...refund }) => refund) }
+      : undefined,
+  };
+}
@@ -0,0 +1,47 @@
+import type { AuthResponse, AuthTokens, SafeUser } from "../types/user";
+
+/**
+ * Browser-side session persistence for the tokens returned by lib/api login()/register().
+ *
+ * The session lives in localStorage so client components (e.g. the cart) can tell
+ * guests from signed-in users and attach the access token to API calls.
+ * All helpers are no-ops during server rendering.
+ */
+
+export const SESSION_STORAGE_KEY = "auth_v1";
+
+export interface StoredSession {
+  user: SafeUser;
+  tokens: AuthTokens;
+}
+
+export function getStoredSession(): StoredSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredSession;
+    if (!parsed?.user?.id || !parsed?.tokens?.accessToken) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: AuthResponse) {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    // ignore storage errors (private mode, quota)
+  }
+}
+
+export function clearSession() {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,356 @@
+import type { Dimensions, Product } from "../types/product";
+import type { ShippingAddress } from "../types/order";
+import { globalSingleton, setGlobalSingleton } from "./singleton";
+
+/**
+ * lib/shipping.ts
+ * Shipping rates for carts and orders.
+ *
+ * The shipping address picks a zone (the most specific match: postal code prefix,
+ * then state, then country, then the "*" catch-all). Each zone offers service levels
+ * (standard, express) priced by weight tier. The weight charged for is the billable
+ * weight: per item, the larger of its actual weight (Product.weight) and its
+ * volumetric weight (Product.dimensions, length x width x height / volumetricDivisor).
+ * A service can ship free once the items total reaches its `freeOver` threshold.
+ *
+ * POST /api/shipping/rates lists the rates for a cart; POST /api/orders and
+ * POST /api/tax/estimate price the chosen service with the same functions, so the
+ * order stores the shippingPrice the shopper was shown. The default zones below can
+ * be replaced with SHIPPING_CONFIG (JSON ShippingConfig) or setShippingConfig().
+ */
+
+export type ShippingServiceLevel = "standard" | "express";
+
+export const SHIPPING_SERVICE_LEVELS: readonly ShippingServiceLevel[] = ["standard", "express"];
+
+export interface WeightTier {
+  /** tier applies up to and including this billable weight */
+  upToKg: number;
+  price: number;
+}
+
+export interface ShippingServiceRate {
+  service: ShippingServiceLevel;
+  label: string;
+  /** ascending by upToKg */
+  tiers: WeightTier[];
+  /** beyond the last tier: added per started kg; without it heavier carts cannot use the service */
+  extraPerKg?: number;
+  /** ship free when the items total is at least this */
+  freeOver?: number;
+  /** delivery estimate in business days: [min, max] */
+  days: [number, number];
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  /** ISO 3166-1 alpha-2 codes; "*" matches any country */
+  countries: string[];
+  states?: string[];
+  postalCodePrefixes?: string[];
+  services: ShippingServiceRate[];
+}
+
+export interface ShippingConfig {
+  zones: ShippingZone[];
+  /** cm³ per kg for volumetric weight (5000 is the usual courier divisor) */
+  volumetricDivisor: number;
+  /** weight assumed for products without one */
+  defaultItemWeightKg: number;
+}
+
+export const DEFAULT_SHIPPING_CONFIG: ShippingConfig = {
+  volumetricDivisor: 5000,
+  defaultItemWeightKg: 0.5,
+  zones: [
+    {
+      id: "us",
+      name: "United States",
+      countries: ["US"],
+      services: [
+        {
+          service: "standard",
+          label: "Standard",
+          tiers: [{ upToKg: 1, price: 4.99 }, { upToKg: 5, price: 7.99 }, { upToKg: 20, price: 12.99 }],
+          extraPerKg: 0.5,
+          freeOver: 50,
+          days: [3, 5],
+        },
+        {
+          service: "express",
+          label: "Express",
+          tiers: [{ upToKg: 1, price: 14.99 }, { upToKg: 5, price: 19.99 }, { upToKg: 20, price: 29.99 }],
+          extraPerKg: 1.5,
+          days: [1, 2],
+        },
+      ],
+    },
+    {
+      id: "us-remote",
+      name: "Alaska, Hawaii and Puerto Rico",
+      countries: ["US"],
+      states: ["AK", "HI", "PR"],
+      services: [
+        {
+          service: "standard",
+          label: "Standard",
+          tiers: [{ upToKg: 1, price: 9.99 }, { upToKg: 5, price: 14.99 }, { upToKg: 20, price: 24.99 }],
+          extraPerKg: 1,
+          days: [5, 10],
+        },
+        {
+          service: "express",
+          label: "Express",
+          tiers: [{ upToKg: 1, price: 24.99 }, { upToKg: 5, price: 34.99 }, { upToKg: 20, price: 49.99 }],
+          extraPerKg: 2.5,
+          days: [2, 4],
+        },
+      ],
+    },
+    {
+      id: "europe",
+      name: "Europe",
+      countries: ["GB", "IE", "DE", "FR", "NL", "BE", "ES", "IT", "AT", "DK", "SE"],
+      services: [
+        {
+          service: "standard",
+          label: "Standard international",
+          tiers: [{ upToKg: 1, price: 12.99 }, { upToKg: 5, price: 19.99 }, { upToKg: 20, price: 34.99 }],
+          extraPerKg: 1.5,
+          freeOver: 150,
+          days: [5, 9],
+        },
+        {
+          service: "express",
+          label: "Express international",
+          tiers: [{ upToKg: 1, price: 29.99 }, { upToKg: 5, price: 39.99 }, { upToKg: 20, price: 59.99 }],
+          extraPerKg: 3,
+          days: [2, 4],
+        },
+      ],
+    },
+    {
+      id: "international",
+      name: "Rest of the world",
+      countries: ["*"],
+      services: [
+        {
+          service: "standard",
+          label: "Standard international",
+          tiers: [{ upToKg: 1, price: 19.99 }, { upToKg: 5, price: 29.99 }, { upToKg: 20, price: 49.99 }],
+          extraPerKg: 2.5,
+          days: [7, 14],
+        },
+        {
+          service: "express",
+          label: "Express international",
+          tiers: [{ upToKg: 1, price: 39.99 }, { upToKg: 5, price: 59.99 }, { upToKg: 20, price: 89.99 }],
+          extraPerKg: 4,
+          days: [3, 6],
+        },
+      ],
+    },
+  ],
+};
+
+/** Address fields shipping depends on */
+export type ShippingRateAddress = Pick<ShippingAddress, "country"> & Partial<Pick<ShippingAddress, "state" | "postalCode">>;
+
+export interface ShippingLineInput {
+  product: Pick<Product, "weight" | "dimensions">;
+  quantity: number;
+}
+
+export interface ShippingRate {
+  service: ShippingServiceLevel;
+  label: string;
+  /** id of the zone the address fell in */
+  zone: string;
+  shippingPrice: number;
+  billableWeightKg: number;
+  /** the free-shipping threshold was reached */
+  freeShipping: boolean;
+  estimatedDays: { min: number; max: number };
+}
+
+/**
+ * Error raised when a cart cannot be shipped as asked (no zone for the address, or
+ * a service the zone does not offer). `status` is the HTTP status a route should
+ * respond with.
+ */
+export class ShippingError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 422) {
+    super(message);
+    this.name = "ShippingError";
+    this.status = status;
+  }
+}
+
+function roundToTwo(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+const normalize = (value?: string) => (value ?? "").trim().toUpperCase();
+
+const KG_PER_UNIT: Record<NonNullable<NonNullable<Product["weight"]>["unit"]>, number> = {
+  kg: 1,
+  g: 0.001,
+  lb: 0.45359237,
+  oz: 0.028349523125,
+};
+
+const CM_PER_UNIT: Record<NonNullable<Dimensions["unit"]>, number> = { cm: 1, mm: 0.1, m: 100, in: 2.54 };
+
+function parseShippingConfig(raw: string): ShippingConfig {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed?.zones) || parsed.zones.length === 0) throw new Error("'zones' must be a non-empty array");
+    for (const zone of parsed.zones) {
+      if (!Array.isArray(zone?.countries) || !Array.isArray(zone?.services)) {
+        throw new Error("every zone needs countries and services");
+      }
+    }
+    return {
+      zones: parsed.zones,
+      volumetricDivisor: parsed.volumetricDivisor ?? DEFAULT_SHIPPING_CONFIG.volumetricDivisor,
+      defaultItemWeightKg: parsed.defaultItemWeightKg ?? DEFAULT_SHIPPING_CONFIG.defaultItemWeightKg,
+    };
+  } catch (err) {
+    throw new ShippingError(`Invalid SHIPPING_CONFIG: ${err instanceof Error ? err.message : String(err)}`, 500);
+  }
+}
+
+/**
+ * getShippingConfig
+ * The configured zones: SHIPPING_CONFIG when set, otherwise DEFAULT_SHIPPING_CONFIG.
+ */
+export function getShippingConfig(): ShippingConfig {
+  return globalSingleton("shippingConfig", () =>
+    process.env.SHIPPING_CONFIG ? parseShippingConfig(process.env.SHIPPING_CONFIG) : DEFAULT_SHIPPING_CONFIG
+  );
+}
+
+/**
+ * setShippingConfig
+ * Replace the active zones (e.g. in tests); pass null to go back to the configured ones.
+ */
+export function setShippingConfig(config: ShippingConfig | null) {
+  setGlobalSingleton("shippingConfig", config);
+}
+
+/** Type guard for a service level name */
+export function isShippingServiceLevel(value: unknown): value is ShippingServiceLevel {
+  return SHIPPING_SERVICE_LEVELS.includes(value as ShippingServiceLevel);
+}
+
+/**
+ * billableWeightKg
+ * Weight charged for one unit of a product: its actual weight or its volumetric
+ * weight, whichever is larger.
+ */
+export function billableWeightKg(
+  product: Pick<Product, "weight" | "dimensions">,
+  config: ShippingConfig = getShippingConfig()
+) {
+  const actual =
+    product.weight && Number.isFinite(product.weight.value)
+      ? product.weight.value * KG_PER_UNIT[product.weight.unit ?? "kg"]
+      : config.defaultItemWeightKg;
+
+  const d = product.dimensions;
+  let volumetric = 0;
+  if (d && d.height && d.width && d.depth) {
+    const cm = CM_PER_UNIT[d.unit ?? "cm"];
+    volumetric = (d.height * cm * (d.width * cm) * (d.depth * cm)) / config.volumetricDivisor;
+  }
+  return Math.max(actual, volumetric);
+}
+
+/**
+ * findShippingZone
+ * The most specific zone covering an address, if any.
+ */
+export function findShippingZone(
+  address: ShippingRateAddress,
+  config: ShippingConfig = getShippingConfig()
+): ShippingZone | undefined {
+  const country = normalize(address.country);
+  const state = normalize(address.state);
+  const postalCode = normalize(address.postalCode).replace(/\s+/g, "");
+
+  const specificity = (zone: ShippingZone) =>
+    (zone.postalCodePrefixes?.length ? 4 : 0) + (zone.states?.length ? 2 : 0) + (zone.countries.includes("*") ? 0 : 1);
+  return config.zones
+    .filter(
+      (zone) =>
+        (zone.countries.includes("*") || zone.countries.some((c) => normalize(c) === country)) &&
+        (!zone.states?.length || zone.states.some((s) => normalize(s) === state)) &&
+        (!zone.postalCodePrefixes?.length ||
+          zone.postalCodePrefixes.some((p) => postalCode.startsWith(normalize(p).replace(/\s+/g, ""))))
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+// Price of a service for a billable weight; undefined when too heavy for it
+function tierPrice(rate: ShippingServiceRate, weightKg: number) {
+  const tiers = [...rate.tiers].sort((a, b) => a.upToKg - b.upToKg);
+  const tier = tiers.find((t) => weightKg <= t.upToKg);
+  if (tier) return tier.price;
+  const last = tiers[tiers.length - 1];
+  if (!last || rate.extraPerKg === undefined) return undefined;
+  return last.price + rate.extraPerKg * Math.ceil(weightKg - last.upToKg);
+}
+
+/**
+ * quoteShippingRates
+ * Every service available for a cart shipped to an address, cheapest first.
+ * `itemsPrice` is the catalog total of the lines (see lib/pricing), used for the
+ * free-shipping thresholds. Throws ShippingError when no zone covers the address.
+ */
+export function quoteShippingRates(
+  input: { lines: ShippingLineInput[]; itemsPrice: number; address: ShippingRateAddress },
+  config: ShippingConfig = getShippingConfig()
+): ShippingRate[] {
+  const zone = findShippingZone(input.address, config);
+  if (!zone) {
+    throw new ShippingError(`We do not ship to ${normalize(input.address.country) || "this address"}.`);
+  }
+  const weight = roundToTwo(
+    input.lines.reduce((sum, line) => sum + billableWeightKg(line.product, config) * line.quantity, 0)
+  );
+
+  const rates: ShippingRate[] = [];
+  for (const rate of zone.services) {
+    const price = tierPrice(rate, weight);
+    if (price === undefined) continue;
+    const freeShipping = rate.freeOver !== undefined && input.itemsPrice >= rate.freeOver;
+    rates.push({
+      service: rate.service,
+      label: rate.label,
+      zone: zone.id,
+      shippingPrice: freeShipping ? 0 : roundToTwo(price),
+      billableWeightKg: weight,
+      freeShipping,
+      estimatedDays: { min: rate.days[0], max: rate.days[1] },
+    });
+  }
+  return rates.sort((a, b) => a.shippingPrice - b.shippingPrice);
+}
+
+/**
+ * quoteShippingRate
+ * The rate of one service level; throws ShippingError when it is not available for
+ * the address or the cart is too heavy for it.
+ */
+export function quoteShippingRate(
+  service: ShippingServiceLevel,
+  input: { lines: ShippingLineInput[]; itemsPrice: number; address: ShippingRateAddress },
+  config: ShippingConfig = getShippingConfig()
+): ShippingRate {
+  const rate = quoteShippingRates(input, config).find((r) => r.service === service);
+  if (!rate) throw new ShippingError(`${service} shipping is not available for this order.`);
+  return rate;
+}
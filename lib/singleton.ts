@@ -0,0 +1,46 @@
+/**
+ * lib/singleton.ts
+ * Process-wide state (stores, configuration, registries) shared by every route.
+ *
+ * Next.js can evaluate the same server module more than once in a single process:
+ * routes are compiled into separate bundles, and development hot reload re-runs
+ * modules. A module-level variable would then exist once per copy, so a store set with
+ * setUserStore() or a token revoked by the logout route could be missing in another
+ * route. Entries are therefore kept on globalThis in every environment. (lib/db only
+ * caches its PrismaClient outside production, where the concern is connection reuse
+ * across reloads rather than shared state.)
+ */
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __singletons: Map<string, unknown> | undefined;
+}
+
+function entries(): Map<string, unknown> {
+  return (globalThis.__singletons ??= new Map());
+}
+
+/**
+ * globalSingleton
+ * The value stored under `key`, created with `factory` on first use.
+ */
+export function globalSingleton<T>(key: string, factory: () => T): T {
+  const map = entries();
+  if (!map.has(key)) {
+    map.set(key, factory());
+  }
+  return map.get(key) as T;
+}
+
+/**
+ * setGlobalSingleton
+ * Replace the value stored under `key`; null or undefined drops it so the next
+ * globalSingleton() call creates it again.
+ */
+export function setGlobalSingleton<T>(key: string, value: T | null | undefined) {
+  if (value == null) {
+    entries().delete(key);
+  } else {
+    entries().set(key, value);
+  }
+}
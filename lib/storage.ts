@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { globalSingleton } from './singleton';
+
+/**
+ * lib/storage.ts
+ * Storage configuration shared by the entity stores (lib/users, lib/products).
+ *
+ * The backend is chosen once, by configuration, and never guessed:
+ *   DATA_STORE=prisma (default) - the database through lib/db
+ *   DATA_STORE=json             - one JSON file per collection under DATA_DIR
+ *                                 (default <cwd>/data), for local development
+ *   DATA_STORE=memory           - process memory, for tests and throwaway demos
+ * An unknown value is a configuration error rather than a silent fallback.
+ *
+ * Each entity module exposes a typed store interface with one implementation per
+ * backend, plus get*Store()/set*Store() so tests can inject their own.
+ * Orders, payments and the inventory ledger rely on database transactions and always
+ * use Prisma; their routes call requireDatabaseStorage() and refuse to run on the
+ * other backends rather than mix a json/memory catalog with database orders.
+ */
+
+export type StorageDriver = 'prisma' | 'json' | 'memory';
+
+const DRIVERS: readonly StorageDriver[] = ['prisma', 'json', 'memory'];
+
+/**
+ * Error raised when DATA_STORE names a backend that does not exist.
+ */
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageConfigError';
+  }
+}
+
+/**
+ * getStorageDriver
+ * The configured backend (DATA_STORE, default "prisma").
+ */
+export function getStorageDriver(): StorageDriver {
+  const value = (process.env.DATA_STORE || 'prisma').trim().toLowerCase();
+  if (!DRIVERS.includes(value as StorageDriver)) {
+    throw new StorageConfigError(`Unknown DATA_STORE '${value}'. Expected one of: ${DRIVERS.join(', ')}.`);
+  }
+  return value as StorageDriver;
+}
+
+/**
+ * requireDatabaseStorage
+ * Throws StorageConfigError unless DATA_STORE=prisma. `feature` names what needs the
+ * database in the message, e.g. "Orders".
+ */
+export function requireDatabaseStorage(feature: string) {
+  const driver = getStorageDriver();
+  if (driver !== 'prisma') {
+    throw new StorageConfigError(
+      `${feature} are only stored in the database; set DATA_STORE=prisma (DATA_STORE is '${driver}').`
+    );
+  }
+}
+
+/** Directory used by the json backend */
+export function getDataDir() {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/** Random id for records created outside the database */
+export function newRecordId() {
+  return crypto.randomUUID();
+}
+
+/* ----------------------------- Collections ------------------------------ */
+
+/**
+ * A set of records keyed by id, backing the json and memory stores.
+ */
+export interface RecordCollection<T extends { id: string }> {
+  /** Every record, in insertion order */
+  read(): Promise<T[]>;
+  /**
+   * Change records under a per-collection lock and persist the result.
+   * Returns whatever `fn` returns.
+   */
+  update<R>(fn: (records: Map<string, T>) => R | Promise<R>): Promise<R>;
+}
+
+/** Run `fn` after every earlier update of the same collection has finished */
+function withLock<R>(key: string, fn: () => Promise<R>): Promise<R> {
+  const locks = globalSingleton('collectionLocks', () => new Map<string, Promise<unknown>>());
+  const run = (locks.get(key) ?? Promise.resolve()).catch(() => undefined).then(fn);
+  locks.set(key, run);
+  return run;
+}
+
+/**
+ * memoryCollection
+ * Records held in process memory; lost on restart.
+ */
+export function memoryCollection<T extends { id: string }>(name: string): RecordCollection<T> {
+  const collections = globalSingleton('memoryCollections', () => new Map<string, Map<string, { id: string }>>());
+  if (!collections.has(name)) collections.set(name, new Map());
+  const records = collections.get(name) as Map<string, T>;
+
+  return {
+    async read() {
+      return Array.from(records.values());
+    },
+    update(fn) {
+      return withLock(`memory:${name}`, async () => fn(records));
+    },
+  };
+}
+
+/**
+ * jsonCollection
+ * Records stored as a JSON array in <DATA_DIR>/<name>.json. Writes go to a temporary
+ * file first and are renamed into place, so a crash never leaves half a file.
+ */
+export function jsonCollection<T extends { id: string }>(name: string): RecordCollection<T> {
+  const file = path.join(getDataDir(), `${name}.json`);
+
+  async function load(): Promise<Map<string, T>> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+      throw err;
+    }
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new StorageConfigError(`${file} must contain a JSON array.`);
+    }
+    return new Map((parsed as T[]).map((record) => [record.id, record]));
+  }
+
+  async function save(records: Map<string, T>) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(Array.from(records.values()), null, 2), 'utf-8');
+    await fs.rename(tmp, file);
+  }
+
+  return {
+    async read() {
+      return Array.from((await load()).values());
+    },
+    update(fn) {
+      return withLock(`json:${file}`, async () => {
+        const records = await load();
+        const result = await fn(records);
+        await save(records);
+        return result;
+      });
+    },
+  };
+}
+
+/**
+ * collectionFor
+ * The json or memory collection for an entity, following DATA_STORE.
+ */
+export function collectionFor<T extends { id: string }>(driver: Exclude<StorageDriver, 'prisma'>, name: string) {
+  return driver === 'json' ? jsonCollection<T>(name) : memoryCollection<T>(name);
+}
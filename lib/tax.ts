@@ -0,0 +1,227 @@
+import type { Product } from "../types/product";
+import type { ShippingAddress } from "../types/order";
+import { globalSingleton, setGlobalSingleton } from "./singleton";
+
+/**
+ * lib/tax.ts
+ * Sales tax / VAT for carts and orders.
+ *
+ * Tax is found from the shipping address: the most specific rule for its country,
+ * state and postal code applies (a postal code prefix beats a state, a state beats
+ * the whole country). Addresses no rule covers are not taxed. Each rule has a rate
+ * per tax class, and products get their class from their category.
+ *
+ * Rules are either exclusive (US sales tax: tax is added on top of catalog prices) or
+ * inclusive (VAT: catalog prices already contain the tax, which is only reported).
+ * Either way `taxPrice` is the tax in the order; it is added to the total only for
+ * exclusive rules.
+ *
+ * The same calculation prices the cart preview (POST /api/tax/estimate) and the
+ * stored order (POST /api/orders), so the two always agree. The default rules below
+ * can be replaced with TAX_CONFIG (JSON TaxConfig) or setTaxConfig().
+ */
+
+/** standard: the full rate; reduced: e.g. books and food; zero: taxable at 0% */
+export type TaxClass = "standard" | "reduced" | "zero";
+
+export interface TaxRule {
+  /** ISO 3166-1 alpha-2 country code, e.g. "US" */
+  country: string;
+  /** state / region code, e.g. "CA" */
+  state?: string;
+  /** applies to postal codes starting with this */
+  postalCodePrefix?: string;
+  /** `reduced` falls back to `standard`; `zero` is 0 unless set */
+  rates: { standard: number; reduced?: number; zero?: number };
+  /** catalog prices already include this tax */
+  inclusive?: boolean;
+  /** tax shipping too, at the standard rate */
+  taxShipping?: boolean;
+  /** shown to shoppers, e.g. "VAT" or "CA sales tax" */
+  label?: string;
+}
+
+export interface TaxConfig {
+  rules: TaxRule[];
+  /** product category (case-insensitive) -> tax class; other categories are "standard" */
+  categoryClasses: Record<string, TaxClass>;
+}
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  rules: [
+    { country: "US", rates: { standard: 0.08 }, label: "Sales tax" },
+    { country: "US", state: "CA", rates: { standard: 0.0725 }, label: "CA sales tax" },
+    { country: "US", state: "OR", rates: { standard: 0 }, label: "OR sales tax" },
+    { country: "GB", rates: { standard: 0.2, reduced: 0.05 }, inclusive: true, taxShipping: true, label: "VAT" },
+    { country: "DE", rates: { standard: 0.19, reduced: 0.07 }, inclusive: true, taxShipping: true, label: "MwSt." },
+  ],
+  categoryClasses: {
+    books: "reduced",
+    groceries: "reduced",
+    "gift cards": "zero",
+  },
+};
+
+/** Address fields tax depends on */
+export type TaxAddress = Pick<ShippingAddress, "country"> & Partial<Pick<ShippingAddress, "state" | "postalCode">>;
+
+export interface TaxLineInput {
+  productId: string;
+  variantId?: string;
+  category?: Product["category"];
+  /** price of the whole line (unit price x quantity) */
+  amount: number;
+}
+
+export interface TaxedLine {
+  productId: string;
+  variantId?: string;
+  taxClass: TaxClass;
+  rate: number;
+  amount: number;
+  tax: number;
+}
+
+export interface TaxResult {
+  /** total tax; part of the prices when `inclusive`, on top of them otherwise */
+  taxPrice: number;
+  inclusive: boolean;
+  /** label of the rule applied; undefined when the address is not taxed */
+  jurisdiction?: string;
+  lines: TaxedLine[];
+  shippingTax: number;
+}
+
+/** Totals with tax for a cart, as returned by POST /api/tax/estimate */
+export interface TaxEstimate extends TaxResult {
+  itemsPrice: number;
+  shippingPrice: number;
+  totalPrice: number;
+}
+
+/**
+ * Error raised for malformed tax configuration or estimate input.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class TaxError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "TaxError";
+    this.status = status;
+  }
+}
+
+function roundToTwo(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+const normalize = (value?: string) => (value ?? "").trim().toUpperCase();
+
+function parseTaxConfig(raw: string): TaxConfig {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed?.rules)) throw new Error("'rules' must be an array");
+    for (const rule of parsed.rules) {
+      if (typeof rule?.country !== "string" || typeof rule?.rates?.standard !== "number") {
+        throw new Error("every rule needs a country and rates.standard");
+      }
+    }
+    return { rules: parsed.rules, categoryClasses: parsed.categoryClasses ?? {} };
+  } catch (err) {
+    throw new TaxError(`Invalid TAX_CONFIG: ${err instanceof Error ? err.message : String(err)}`, 500);
+  }
+}
+
+/**
+ * getTaxConfig
+ * The configured rules: TAX_CONFIG when set, otherwise DEFAULT_TAX_CONFIG.
+ */
+export function getTaxConfig(): TaxConfig {
+  return globalSingleton("taxConfig", () =>
+    process.env.TAX_CONFIG ? parseTaxConfig(process.env.TAX_CONFIG) : DEFAULT_TAX_CONFIG
+  );
+}
+
+/**
+ * setTaxConfig
+ * Replace the active rules (e.g. in tests); pass null to go back to the configured ones.
+ */
+export function setTaxConfig(config: TaxConfig | null) {
+  setGlobalSingleton("taxConfig", config);
+}
+
+/**
+ * findTaxRule
+ * The most specific rule covering an address, if any.
+ */
+export function findTaxRule(address: TaxAddress, config: TaxConfig = getTaxConfig()): TaxRule | undefined {
+  const country = normalize(address.country);
+  const state = normalize(address.state);
+  const postalCode = normalize(address.postalCode).replace(/\s+/g, "");
+
+  const specificity = (rule: TaxRule) => (rule.postalCodePrefix ? 2 : 0) + (rule.state ? 1 : 0);
+  return config.rules
+    .filter(
+      (rule) =>
+        normalize(rule.country) === country &&
+        (!rule.state || normalize(rule.state) === state) &&
+        (!rule.postalCodePrefix || postalCode.startsWith(normalize(rule.postalCodePrefix).replace(/\s+/g, "")))
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+/** Tax class of a product from its category (the first listed category that has one) */
+export function taxClassFor(category: Product["category"], config: TaxConfig = getTaxConfig()): TaxClass {
+  for (const name of Array.isArray(category) ? category : [category]) {
+    const taxClass = name ? config.categoryClasses[name.trim().toLowerCase()] : undefined;
+    if (taxClass) return taxClass;
+  }
+  return "standard";
+}
+
+function rateFor(rule: TaxRule, taxClass: TaxClass) {
+  if (taxClass === "zero") return rule.rates.zero ?? 0;
+  if (taxClass === "reduced") return rule.rates.reduced ?? rule.rates.standard;
+  return rule.rates.standard;
+}
+
+// Tax in an amount: the included part for inclusive rules, the added part otherwise
+function taxOn(amount: number, rate: number, inclusive: boolean) {
+  return inclusive ? amount - amount / (1 + rate) : amount * rate;
+}
+
+/**
+ * calculateTax
+ * Tax for priced lines (see lib/pricing) and shipping to an address. Lines are taxed
+ * unrounded and the total is rounded once, so it does not depend on line order.
+ */
+export function calculateTax(
+  input: { lines: TaxLineInput[]; shippingPrice?: number; address: TaxAddress },
+  config: TaxConfig = getTaxConfig()
+): TaxResult {
+  if (!normalize(input.address.country)) {
+    throw new TaxError("A country is required to calculate tax.");
+  }
+  const rule = findTaxRule(input.address, config);
+  const inclusive = !!rule?.inclusive;
+
+  let raw = 0;
+  const lines = input.lines.map((line): TaxedLine => {
+    const taxClass = taxClassFor(line.category, config);
+    const rate = rule ? rateFor(rule, taxClass) : 0;
+    const tax = taxOn(line.amount, rate, inclusive);
+    raw += tax;
+    return { productId: line.productId, variantId: line.variantId, taxClass, rate, amount: line.amount, tax: roundToTwo(tax) };
+  });
+
+  const shippingRaw = rule?.taxShipping ? taxOn(input.shippingPrice ?? 0, rule.rates.standard, inclusive) : 0;
+  return {
+    taxPrice: roundToTwo(raw + shippingRaw),
+    inclusive,
+    jurisdiction: rule ? rule.label ?? [rule.country, rule.state, rule.postalCodePrefix].filter(Boolean).join("-") : undefined,
+    lines,
+    shippingTax: roundToTwo(shippingRaw),
+  };
+}
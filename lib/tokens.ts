@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+
+/**
+ * lib/tokens.ts
+ * Single-use, user-scoped tokens for emailed links (password reset, verification).
+ *
+ * A token looks like `<userId>.<secret>`. Only a SHA-256 hash of the secret is
+ * stored, so a leaked database row cannot be replayed as a link. The user id
+ * prefix lets routes load the owning record directly instead of searching by hash.
+ */
+
+export interface OneTimeToken {
+  /** value to send to the user (never stored) */
+  token: string;
+  /** value to store on the user record */
+  tokenHash: string;
+  /** ISO timestamp after which the token is rejected */
+  expiresAt: string;
+}
+
+const SECRET_BYTES = 32;
+
+/**
+ * hashTokenSecret
+ * Hash the secret part of a token for storage.
+ */
+export function hashTokenSecret(secret: string) {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * createOneTimeToken
+ * Generate a fresh token for a user that expires after `ttlMs`.
+ */
+export function createOneTimeToken(userId: string, ttlMs: number): OneTimeToken {
+  const secret = crypto.randomBytes(SECRET_BYTES).toString('base64url');
+  return {
+    token: `${userId}.${secret}`,
+    tokenHash: hashTokenSecret(secret),
+    expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+  };
+}
+
+/**
+ * parseOneTimeToken
+ * Split a token into its user id and secret. Returns null for malformed input.
+ */
+export function parseOneTimeToken(token: unknown): { userId: string; secret: string } | null {
+  if (typeof token !== 'string') return null;
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0 || separator === token.length - 1) return null;
+  return { userId: token.slice(0, separator), secret: token.slice(separator + 1) };
+}
+
+/**
+ * matchesTokenHash
+ * Check a secret against a stored hash and expiry in constant time.
+ */
+export function matchesTokenHash(
+  secret: string,
+  storedHash: string | null | undefined,
+  expiresAt: string | null | undefined
+) {
+  if (!storedHash || !expiresAt) return false;
+  if (Date.parse(expiresAt) <= Date.now()) return false;
+  const candidate = Buffer.from(hashTokenSecret(secret));
+  const stored = Buffer.from(storedHash);
+  return candidate.length === stored.length && crypto.timingSafeEqual(candidate, stored);
+}
@@ -0,0 +1,311 @@
+import type { User as UserRow } from '@prisma/client';
+import type { CartItem, SafeUser, User, UserRole, UserStatus } from '../types/user';
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from './password';
+import { fromJson, isoDate, optional, toJson } from './rows';
+import { globalSingleton, setGlobalSingleton } from './singleton';
+import { collectionFor, getStorageDriver, newRecordId, type RecordCollection } from './storage';
+
+/**
+ * lib/users.ts
+ * Shared user storage and helpers used by the users and auth API routes.
+ *
+ * Users live in the store selected by DATA_STORE (lib/storage): the database by
+ * default, or a JSON file / process memory for development and tests.
+ */
+
+/* ----------------------------- Utilities ------------------------------ */
+
+/**
+ * Normalize an email address for storage and lookups.
+ */
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Remove sensitive fields before returning user objects in responses.
+ */
+export function sanitizeUser(user: User): SafeUser;
+export function sanitizeUser(user: User | null): SafeUser | null;
+export function sanitizeUser(user: User | null): SafeUser | null {
+  if (!user) return null;
+  const { password, resetToken, resetTokenExpiry, metadata, ...rest } = user;
+  return rest;
+}
+
+/** Fields clients may never write directly (the cart only changes through lib/cart) */
+const PROTECTED_USER_FIELDS = ['id', 'resetToken', 'resetTokenExpiry', 'metadata', 'cart', 'createdAt', 'updatedAt'] as const;
+
+/** Fields only admins may change (see lib/authz) */
+export const ADMIN_ONLY_USER_FIELDS = ['role', 'status', 'emailVerified'] as const;
+
+/**
+ * Returns true when an update body touches any admin-only field.
+ */
+export function touchesAdminOnlyFields(updates: Record<string, unknown>) {
+  return ADMIN_ONLY_USER_FIELDS.some((field) => field in updates);
+}
+
+/** Update body accepted by PUT/PATCH on the users routes */
+export type UserUpdateBody = Partial<User> & { password?: string; currentPassword?: string };
+
+/**
+ * Error raised for an update body that cannot be applied.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class UserUpdateError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'UserUpdateError';
+    this.status = status;
+  }
+}
+
+/**
+ * buildUserUpdate
+ * Turn a client update body for `existing` into a storage payload: drops protected
+ * fields, checks and hashes a new password and normalizes the email.
+ *
+ * A new password needs the same minimum length as sign-up, and `currentPassword` when
+ * `actor` is the account owner; admins resetting someone else's password do not know it.
+ * A new email address is unverified until confirmed again (see lib/emailVerification).
+ * Throws UserUpdateError for bodies that cannot be applied.
+ */
+export async function buildUserUpdate(
+  existing: User,
+  updates: UserUpdateBody,
+  actor: Pick<User, 'id'>
+): Promise<Partial<User>> {
+  const { currentPassword, ...fields } = updates;
+  const payload: Partial<User> = { ...fields };
+  for (const field of PROTECTED_USER_FIELDS) delete payload[field];
+
+  if (updates.password !== undefined) {
+    if (typeof updates.password !== 'string' || updates.password.length < MIN_PASSWORD_LENGTH) {
+      throw new UserUpdateError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (actor.id === existing.id) {
+      if (typeof updates.currentPassword !== 'string' || !updates.currentPassword) {
+        throw new UserUpdateError('currentPassword is required to change the password');
+      }
+      if (!(await verifyPassword(updates.currentPassword, existing.password)).valid) {
+        throw new UserUpdateError('Current password is incorrect', 403);
+      }
+    }
+    payload.password = await hashPassword(updates.password);
+  }
+
+  if (updates.email !== undefined) {
+    if (typeof updates.email !== 'string' || !updates.email.trim()) {
+      throw new UserUpdateError('Invalid email');
+    }
+    payload.email = normalizeEmail(updates.email);
+    if (payload.email !== existing.email) {
+      const { emailVerification, ...metadata } = existing.metadata ?? {};
+      // Admins may still mark the new address verified explicitly
+      payload.emailVerified = updates.emailVerified ?? false;
+      payload.metadata = metadata;
+    }
+  }
+
+  payload.updatedAt = new Date().toISOString();
+  return payload;
+}
+
+/* ----------------------------- User stores ----------------------------- */
+
+/** A user to create; the store assigns `id` when it is left out */
+export type NewUser = Omit<User, 'id'> & { id?: string };
+
+/** Values updateByIdIf() compares; only the fields given are checked */
+export type UserVersion = Partial<Pick<User, 'resetToken' | 'updatedAt'>>;
+
+// Whether a stored user still has the `expected` values
+function matchesVersion(user: Pick<User, 'resetToken' | 'updatedAt'>, expected: UserVersion) {
+  if ('resetToken' in expected && (user.resetToken ?? null) !== (expected.resetToken ?? null)) return false;
+  if ('updatedAt' in expected && user.updatedAt !== expected.updatedAt) return false;
+  return true;
+}
+
+// updatedAt for a write, always later than the previous one so it can serve as a version
+function nextUpdatedAt(previous?: string | Date) {
+  const last = previous ? new Date(previous).getTime() : NaN;
+  return new Date(Number.isNaN(last) ? Date.now() : Math.max(Date.now(), last + 1));
+}
+
+export interface UserStore {
+  getAll(): Promise<User[]>;
+  getById(id: string): Promise<User | null>;
+  getByEmail(email: string): Promise<User | null>;
+  create(data: NewUser): Promise<User>;
+  updateById(id: string, updates: Partial<User>): Promise<User | null>;
+  /**
+   * Apply `updates` only while the record still has the `expected` values (compared
+   * and written atomically): a resetToken, and/or updatedAt used as a version.
+   * Returns null when the user is missing or no longer matches.
+   */
+  updateByIdIf(id: string, expected: UserVersion, updates: Partial<User>): Promise<User | null>;
+  deleteById(id: string): Promise<User | null>;
+}
+
+/** A User row as the app's User (see lib/rows) */
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    emailVerified: row.emailVerified,
+    password: optional(row.password),
+    firstName: optional(row.firstName),
+    lastName: optional(row.lastName),
+    phone: optional(row.phone),
+    avatarUrl: optional(row.avatarUrl),
+    role: row.role as UserRole,
+    status: row.status as UserStatus,
+    bio: optional(row.bio),
+    cart: fromJson<CartItem[]>(row.cart) ?? [],
+    metadata: fromJson<Record<string, unknown>>(row.metadata),
+    resetToken: row.resetToken,
+    resetTokenExpiry: isoDate(row.resetTokenExpiry) ?? null,
+    createdAt: isoDate(row.createdAt),
+    updatedAt: isoDate(row.updatedAt),
+  };
+}
+
+/**
+ * User columns for Prisma's User model. Addresses, payment methods and the wishlist
+ * are tables of their own and are not written through the user.
+ */
+function toUserData<T extends Partial<User>>(user: T) {
+  const { addresses, paymentMethods, wishlist, cart, metadata, ...columns } = user;
+  return { ...columns, cart: toJson(cart), metadata: toJson(metadata) };
+}
+
+/**
+ * Users in the database through lib/db. The client is loaded on first use so the
+ * json and memory stores work without a generated Prisma client.
+ */
+export function createPrismaUserStore(): UserStore {
+  const db = async () => (await import('./db')).default;
+  return {
+    async getAll() {
+      return (await (await db()).user.findMany()).map(toUser);
+    },
+    async getById(id: string) {
+      const row = await (await db()).user.findUnique({ where: { id } });
+      return row && toUser(row);
+    },
+    async getByEmail(email: string) {
+      const row = await (await db()).user.findUnique({ where: { email } });
+      return row && toUser(row);
+    },
+    async create(data: NewUser) {
+      return toUser(await (await db()).user.create({ data: toUserData(data) }));
+    },
+    async updateById(id: string, updates: Partial<User>) {
+      const prisma = await db();
+      const existing = await prisma.user.findUnique({ where: { id } });
+      if (!existing) return null;
+      return toUser(
+        await prisma.user.update({
+          where: { id },
+          data: { ...toUserData(updates), updatedAt: nextUpdatedAt(existing.updatedAt) },
+        })
+      );
+    },
+    async updateByIdIf(id: string, expected: UserVersion, updates: Partial<User>) {
+      const prisma = await db();
+      const { count } = await prisma.user.updateMany({
+        where: {
+          id,
+          ...('resetToken' in expected ? { resetToken: expected.resetToken ?? null } : {}),
+          ...(expected.updatedAt ? { updatedAt: new Date(expected.updatedAt) } : {}),
+        },
+        data: { ...toUserData(updates), updatedAt: nextUpdatedAt(expected.updatedAt) },
+      });
+      const row = count === 1 ? await prisma.user.findUnique({ where: { id } }) : null;
+      return row && toUser(row);
+    },
+    async deleteById(id: string) {
+      const prisma = await db();
+      const existing = await prisma.user.findUnique({ where: { id } });
+      if (!existing) return null;
+      return toUser(await prisma.user.delete({ where: { id } }));
+    },
+  };
+}
+
+/**
+ * Users in a json or memory collection (see lib/storage).
+ */
+export function createCollectionUserStore(collection: RecordCollection<User>): UserStore {
+  return {
+    async getAll() {
+      return collection.read();
+    },
+    async getById(id: string) {
+      return (await collection.read()).find((u) => u.id === id) ?? null;
+    },
+    async getByEmail(email: string) {
+      return (await collection.read()).find((u) => u.email === email) ?? null;
+    },
+    async create(data: NewUser) {
+      return collection.update((records) => {
+        const now = new Date().toISOString();
+        const record = { id: data.id ?? newRecordId(), ...data, createdAt: now, updatedAt: now };
+        records.set(record.id, record);
+        return record;
+      });
+    },
+    async updateById(id: string, updates: Partial<User>) {
+      return collection.update((records) => {
+        const existing = records.get(id);
+        if (!existing) return null;
+        const updated = { ...existing, ...updates, updatedAt: nextUpdatedAt(existing.updatedAt).toISOString() };
+        records.set(id, updated);
+        return updated;
+      });
+    },
+    async updateByIdIf(id: string, expected: UserVersion, updates: Partial<User>) {
+      return collection.update((records) => {
+        const existing = records.get(id);
+        if (!existing || !matchesVersion(existing, expected)) return null;
+        const updated = { ...existing, ...updates, updatedAt: nextUpdatedAt(existing.updatedAt).toISOString() };
+        records.set(id, updated);
+        return updated;
+      });
+    },
+    async deleteById(id: string) {
+      return collection.update((records) => {
+        const existing = records.get(id);
+        if (!existing) return null;
+        records.delete(id);
+        return existing;
+      });
+    },
+  };
+}
+
+function createDefaultUserStore(): UserStore {
+  const driver = getStorageDriver();
+  return driver === 'prisma' ? createPrismaUserStore() : createCollectionUserStore(collectionFor<User>(driver, 'users'));
+}
+
+/**
+ * getUserStore
+ * The configured user store (DATA_STORE, see lib/storage), shared by every route
+ * that reads or writes users.
+ */
+export function getUserStore(): UserStore {
+  return globalSingleton('userStore', createDefaultUserStore);
+}
+
+/**
+ * setUserStore
+ * Replace the active store (e.g. with a test double); pass null to go back to the
+ * configured one.
+ */
+export function setUserStore(store: UserStore | null) {
+  setGlobalSingleton('userStore', store);
+}
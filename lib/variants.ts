@@ -0,0 +1,72 @@
+import type { Product, ProductVariant } from "../types/product";
+
+/**
+ * lib/variants.ts
+ * Helpers for products sold in variants (size, color, ...), shared by the
+ * storefront components and the order routes.
+ *
+ * - A variant's own price and stock win over the product's when set (prices are
+ *   resolved by resolveUnitPrice in lib/pricing).
+ * - Product.stock is kept as the sum of its variants' stock whenever variants
+ *   track stock, so listings can keep reading a single number.
+ * - Cart lines are keyed by product *and* variant, so two sizes of the same
+ *   product are separate lines.
+ */
+
+export function hasVariants(product: Pick<Product, "variants">) {
+  return Array.isArray(product.variants) && product.variants.length > 0;
+}
+
+export function findVariant(product: Pick<Product, "variants">, variantId?: string | null) {
+  if (!variantId) return undefined;
+  return product.variants?.find((v) => v.id === variantId);
+}
+
+/**
+ * findVariantByOptions
+ * The variant whose options all match the selection (e.g. { Size: "M", Color: "Red" }).
+ */
+export function findVariantByOptions(product: Pick<Product, "variants">, selected: Record<string, string>) {
+  return product.variants?.find((v) =>
+    (v.options ?? []).every((opt) => selected[opt.name] === opt.value)
+  );
+}
+
+/** Option values keyed by option name, the shape stored on OrderItem.variant */
+export function variantOptionsRecord(variant: Pick<ProductVariant, "options">): Record<string, string> {
+  return Object.fromEntries((variant.options ?? []).map((o) => [o.name, o.value]));
+}
+
+/** Human-readable variant description, e.g. "Size: M / Color: Red" */
+export function variantLabel(variant: Pick<ProductVariant, "name" | "options" | "sku">) {
+  if (variant.name) return variant.name;
+  if (variant.options && variant.options.length > 0) {
+    return variant.options.map((o) => `${o.name}: ${o.value}`).join(" / ");
+  }
+  return variant.sku ?? "";
+}
+
+/**
+ * availableStock
+ * Units available for a product or one of its variants; undefined when not tracked.
+ */
+export function availableStock(product: Pick<Product, "stock">, variant?: Pick<ProductVariant, "stock"> | null) {
+  if (variant && typeof variant.stock === "number") return variant.stock;
+  if (variant) return undefined;
+  return typeof product.stock === "number" ? product.stock : undefined;
+}
+
+/**
+ * sumVariantStock
+ * Aggregate stock for Product.stock, or undefined when no variant tracks stock.
+ */
+export function sumVariantStock(variants: Pick<ProductVariant, "stock">[] | undefined) {
+  const tracked = (variants ?? []).filter((v) => typeof v.stock === "number");
+  if (tracked.length === 0) return undefined;
+  return tracked.reduce((sum, v) => sum + (v.stock as number), 0);
+}
+
+/** Key identifying a cart line: product plus variant */
+export function cartLineKey(productId: string, variantId?: string | null) {
+  return variantId ? `${productId}::${variantId}` : productId;
+}
@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import prisma from "./db";
+
+/**
+ * lib/webhooks.ts
+ * Signature checks and once-only bookkeeping for payment provider webhooks.
+ *
+ * Signatures use the common `t=<unix seconds>,v1=<hex>` header format, where v1 is
+ * HMAC-SHA256 over `${t}.${rawBody}` with the provider's webhook secret:
+ *   PAYMENT_WEBHOOK_SECRET_<PROVIDER> (e.g. PAYMENT_WEBHOOK_SECRET_MANUAL), falling
+ *   back to PAYMENT_WEBHOOK_SECRET.
+ * Signatures older than WEBHOOK_TOLERANCE_SECONDS are rejected to limit replays.
+ *
+ * Every event id is recorded in the WebhookEvent table (unique per provider) before it
+ * is applied, so a redelivered event is acknowledged without being processed again.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+/** Accept signatures up to 5 minutes old */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Error raised for bad or unsigned deliveries.
+ * `status` is the HTTP status a route should respond with.
+ */
+export class WebhookError extends Error {
+  public status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "WebhookError";
+    this.status = status;
+  }
+}
+
+/** Webhook secret configured for a provider, if any */
+export function getWebhookSecret(provider: string) {
+  return process.env[`PAYMENT_WEBHOOK_SECRET_${provider.toUpperCase()}`] || process.env.PAYMENT_WEBHOOK_SECRET || null;
+}
+
+function computeSignature(secret: string, timestamp: number, rawBody: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest("hex");
+}
+
+/**
+ * signWebhookPayload
+ * Build a signature header for a body. Used by the manual provider tooling and
+ * handy for sending test deliveries by hand.
+ */
+export function signWebhookPayload(secret: string, rawBody: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, rawBody)}`;
+}
+
+/**
+ * verifyWebhookSignature
+ * Check a signature header against the raw request body.
+ * Throws WebhookError (401) when the signature is missing, stale or wrong, and
+ * (500) when no secret is configured for the provider.
+ */
+export function verifyWebhookSignature(
+  provider: string,
+  rawBody: string,
+  header: string | null,
+  now = Math.floor(Date.now() / 1000)
+) {
+  const secret = getWebhookSecret(provider);
+  if (!secret) {
+    throw new WebhookError(`No webhook secret configured for '${provider}'.`, 500);
+  }
+  if (!header) {
+    throw new WebhookError("Missing webhook signature.", 401);
+  }
+
+  const parts = new Map<string, string[]>();
+  for (const part of header.split(",")) {
+    const [key, value] = part.split("=", 2).map((s) => s.trim());
+    if (!key || !value) continue;
+    parts.set(key, [...(parts.get(key) ?? []), value]);
+  }
+
+  const timestamp = Number(parts.get("t")?.[0]);
+  if (!Number.isInteger(timestamp)) {
+    throw new WebhookError("Malformed webhook signature.", 401);
+  }
+  if (Math.abs(now - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookError("Webhook signature has expired.", 401);
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, rawBody), "hex");
+  // Several v1 values may be present while a secret is being rotated
+  const matches = (parts.get("v1") ?? []).some((candidate) => {
+    const actual = Buffer.from(candidate, "hex");
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  });
+  if (!matches) {
+    throw new WebhookError("Invalid webhook signature.", 401);
+  }
+}
+
+/**
+ * claimWebhookEvent
+ * Record that an event is being processed. Returns false when the event was seen
+ * before (a redelivery), in which case it must not be applied again.
+ */
+export async function claimWebhookEvent(provider: string, eventId: string, type: string): Promise<boolean> {
+  try {
+    await prisma.webhookEvent.create({
+      data: { provider, eventId, type, status: "processing" },
+    });
+    return true;
+  } catch (err: unknown) {
+    // Unique constraint on (provider, eventId): someone already has this event
+    if ((err as { code?: string })?.code === "P2002") return false;
+    throw err;
+  }
+}
+
+/**
+ * completeWebhookEvent
+ * Store the outcome of a processed event (e.g. "applied", "ignored").
+ */
+export async function completeWebhookEvent(provider: string, eventId: string, outcome: string) {
+  await prisma.webhookEvent.update({
+    where: { provider_eventId: { provider, eventId } },
+    data: { status: outcome, processedAt: new Date() },
+  });
+}
+
+/**
+ * releaseWebhookEvent
+ * Forget an event whose processing failed so the provider's retry is applied.
+ */
+export async function releaseWebhookEvent(provider: string, eventId: string) {
+  await prisma.webhookEvent.delete({
+    where: { provider_eventId: { provider, eventId } },
+  });
+}
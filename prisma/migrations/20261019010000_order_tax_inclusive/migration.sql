@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "taxInclusive" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,44 @@
+import { seedFixtures } from "../lib/seed";
+import { getStorageDriver } from "../lib/storage";
+
+/**
+ * prisma/seed.ts
+ * Seed the configured backend with the deterministic fixtures from lib/fixtures.
+ *
+ *   npx tsx prisma/seed.ts [--seed=<number>] [--reset] [--without-orders]
+ *
+ * DATA_STORE picks the backend as it does for the app (lib/storage). Orders need the
+ * database, so DATA_STORE=json is seeded with --without-orders (users and products
+ * only). With DATA_STORE=memory nothing would outlive this process, so tests call
+ * seedFixtures() from lib/seed in-process instead.
+ */
+
+function readArgs(argv: string[]) {
+  const seedArg = argv.find((arg) => arg.startsWith("--seed="));
+  const seed = seedArg ? Number(seedArg.slice("--seed=".length)) : undefined;
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error(`--seed must be an integer, got '${seedArg}'.`);
+  }
+  return { seed, reset: argv.includes("--reset"), withoutOrders: argv.includes("--without-orders") };
+}
+
+async function main() {
+  const driver = getStorageDriver();
+  if (driver === "memory") {
+    throw new Error("DATA_STORE=memory keeps data in process memory; call seedFixtures() from lib/seed instead.");
+  }
+
+  const { seed, reset, withoutOrders } = readArgs(process.argv.slice(2));
+  const result = await seedFixtures({ seed, reset, withoutOrders, log: (message) => console.log(`  ${message}`) });
+  console.log(`Seeded DATA_STORE=${driver}; ${result.skipped} existing record(s) left unchanged.`);
+
+  if (driver === "prisma") {
+    const { disconnectPrisma } = await import("../lib/db");
+    await disconnectPrisma();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -47,6 +47,8 @@ export interface PaymentResult {
  * Individual item within an order
  */
 export interface OrderItem {
+  // line id assigned by the database (used to refund specific lines)
+  id?: string;
   // reference to product id (string to remain DB-agnostic)
   productId: string;
   // optional populated product object (present when joined/populated)
@@ -55,9 +57,39 @@ export interface OrderItem {
   image?: string;
   quantity: number;
   price: number; // price per unit, in order currency smallest unit or decimal
+  // ordered ProductVariant, when the product has variants
+  variantId?: string;
   // Optional product variant info (size, color, etc.)
   variant?: Record<string, string>;
   sku?: string;
+  // units of this line refunded so far
+  refundedQuantity?: number;
+}
+
+/**
+ * A refund issued against an order, for the whole order or for specific lines
+ */
+export interface OrderRefund {
+  id?: string;
+  orderId: string;
+  amount: number;
+  currency?: string;
+  reason?: string;
+  items: {
+    orderItemId: string;
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    amount: number;
+  }[];
+  // whether refunded units were returned to stock
+  restock: boolean;
+  status: 'pending' | 'succeeded' | 'failed';
+  // provider reference (PaymentResult.provider refund id), absent for offline refunds
+  providerRefundId?: string;
+  // id of the admin who issued the refund
+  actorId?: string;
+  createdAt?: string; // ISO date-time
 }
 
 /**
@@ -66,8 +98,12 @@ export interface OrderItem {
 export interface Order {
   // optional id field (databases or API may use _id / id)
   id?: string;
+  // human-friendly reference shown to customers, e.g. 'SF-7K2M9Q4X'
+  orderNumber?: string;
   // the user who placed the order (guest orders might omit userId)
   userId?: string;
+  // email used for order updates; required for guest orders, used to claim them later
+  contactEmail?: string;
   // optional populated user object (when joined)
   user?: User;
   items: OrderItem[];
@@ -76,14 +112,25 @@ export interface Order {
   paymentResult?: PaymentResult;
   itemsPrice: number; // subtotal of items
   shippingPrice: number;
+  // service level the shipping was priced for, e.g. 'standard' or 'express' (lib/shipping)
+  shippingService?: string;
   taxPrice: number;
+  // taxPrice is already part of the item prices (VAT) instead of added to the total
+  taxInclusive?: boolean;
   totalPrice: number;
   currency?: string; // ISO currency code, e.g. 'USD'
   isPaid: boolean;
   paidAt?: string; // ISO date-time
   isDelivered: boolean;
   deliveredAt?: string; // ISO date-time
+  // Fulfillment details recorded when the order ships
+  trackingNumber?: string;
+  shippingCarrier?: string;
+  shippedAt?: string; // ISO date-time
   status: OrderStatus;
+  // total refunded so far; the order becomes 'refunded' once this reaches totalPrice
+  refundedAmount?: number;
+  refunds?: OrderRefund[];
   notes?: string; // customer or admin notes
   createdAt?: string; // ISO date-time
   updatedAt?: string; // ISO date-time
@@ -96,17 +143,21 @@ export interface Order {
  */
 export interface CreateOrderInput {
   userId?: string; // optional for guest checkout
+  contactEmail?: string; // required for guest checkout, defaults to the account email
   items: {
     productId: string;
     name: string;
     image?: string;
     quantity: number;
     price: number;
+    variantId?: string;
     variant?: Record<string, string>;
     sku?: string;
   }[];
   shippingAddress: ShippingAddress;
   paymentMethod: string;
+  // 'standard' (default) or 'express'; see POST /api/shipping/rates
+  shippingService?: string;
   itemsPrice: number;
   shippingPrice: number;
   taxPrice: number;
@@ -116,6 +167,28 @@ export interface CreateOrderInput {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * DTO for refunding an order (admin)
+ * - no items and no amount: refund everything not refunded yet
+ * - amount only: refund money without returning any lines
+ * - items: refund those lines; amount defaults to their price
+ */
+export interface RefundOrderInput {
+  items?: { orderItemId: string; quantity: number }[];
+  amount?: number;
+  reason?: string;
+  // return refunded units to stock (default true, false for cancelled orders)
+  restock?: boolean;
+}
+
+/**
+ * DTO for guests looking up an order without an account
+ */
+export interface OrderLookupInput {
+  orderNumber: string;
+  email: string;
+}
+
 /**
  * DTO for updating order status (admin or fulfillment systems)
  */
@@ -107,7 +107,7 @@ export interface Dimensions {
   width?: number;
   depth?: number;
   /**
-   * Unit for dimensions. Default should be agreed upon in the application (e.g., 'cm').
+   * Unit for dimensions; 'cm' when omitted (see lib/shipping).
    */
   unit?: "cm" | "in" | "mm" | "m";
 }
@@ -223,7 +223,7 @@ export interface Product {
   dimensions?: Dimensions;
 
   /**
-   * Weight useful for shipping calculations
+   * Weight used for shipping rates (lib/shipping); unit defaults to 'kg'
    */
   weight?: {
     value: number;
@@ -295,6 +295,61 @@ export interface ProductSummary {
   tags?: string[];
 }
 
+/**
+ * Why stock moved. Sales, cancellations and refunds are recorded by the order flow;
+ * adjustments and restocks are entered by sellers/admins.
+ */
+export type InventoryMovementType = "sale" | "cancellation" | "refund" | "adjustment" | "restock";
+
+/**
+ * One entry in the append-only inventory ledger.
+ * The sum of `quantity` over a product (or variant) is its stock.
+ */
+export interface InventoryMovement {
+  id: string;
+  productId: ProductID;
+  variantId?: string | null;
+  type: InventoryMovementType;
+  /**
+   * Signed change in units (negative for sales and downward adjustments)
+   */
+  quantity: number;
+  /**
+   * Stock of the product (or variant) right after this movement, when tracked
+   */
+  stockAfter?: number | null;
+  orderId?: string | null;
+  actorId?: string | null;
+  reason?: string | null;
+  createdAt?: string;
+}
+
+/**
+ * Raised when a product's stock drops to or below its lowStockThreshold.
+ */
+export interface LowStockAlert {
+  productId: ProductID;
+  name?: string;
+  stock: number;
+  threshold: number;
+  /**
+   * Movement that crossed the threshold, if the alert came from one
+   */
+  movementType?: InventoryMovementType;
+}
+
+/**
+ * Manual stock change entered by a seller or admin.
+ * - 'restock' only adds units; 'adjustment' may go either way (e.g. shrinkage, a recount).
+ */
+export interface AdjustStockInput {
+  productId: ProductID;
+  variantId?: string;
+  type: "adjustment" | "restock";
+  quantity: number;
+  reason?: string;
+}
+
 /**
  * Generic paginated response for products
  */
@@ -87,11 +87,31 @@ export interface WishlistItem {
  */
 export interface CartItem {
   productId: string;
+  variantId?: string; // ProductVariant id when the product has variants
   quantity: number;
   selectedOptions?: Record<string, string>; // e.g., { size: 'M', color: 'red' }
   addedAt?: string;
 }
 
+/**
+ * Cart item returned by /api/cart, with the current product attached for display.
+ */
+export interface CartLine extends CartItem {
+  product: Product;
+}
+
+/**
+ * Change made to a line while merging a guest cart into the server cart
+ * (quantity capped at available stock, or the line dropped).
+ */
+export interface CartAdjustment {
+  productId: string;
+  variantId?: string;
+  requested: number;
+  quantity: number; // 0 when the line was dropped
+  reason: 'insufficient_stock' | 'unavailable';
+}
+
 /**
  * Complete User model as stored in the database.
  * Note: password and reset tokens exist here and must be excluded from client DTOs.
@@ -146,6 +166,14 @@ export interface AuthTokens {
   issuedAt?: string;
 }
 
+/**
+ * Response body returned by the login, register and refresh endpoints.
+ */
+export interface AuthResponse {
+  user: SafeUser;
+  tokens: AuthTokens;
+}
+
 /**
  * Payload used to create a new user (registration).
  * Backend should validate required fields and enforce password rules.